@@ -0,0 +1,89 @@
+// src/ChatProvider.ts
+import { ChatMessage, ChatUsage, ReasoningEffort } from './types';
+
+/**
+ * Per-model reasoning capabilities reported by GET /models.
+ * Absent for non-reasoning models and dynamic router models (e.g. openrouter/auto).
+ */
+export interface ModelReasoningInfo {
+    supported_efforts?: string[] | null; // null = all gateway effort values accepted
+    default_effort?: string;
+    default_enabled?: boolean;
+    supports_max_tokens?: boolean;
+    mandatory?: boolean; // true = the model rejects effort "none"
+}
+
+/**
+ * A model as listed by a provider. OpenRouter fills in most fields; plain
+ * OpenAI-compatible servers usually only report the ID.
+ */
+export interface ModelInfo {
+    id: string;
+    name: string;
+    description?: string;
+    pricing?: {
+        prompt: string;
+        completion: string;
+        request?: string;
+        image?: string;
+    };
+    context_length?: number;
+    architecture?: {
+        modality: string; // e.g. "text+image->text"
+        input_modalities?: string[]; // e.g. ["text", "image"]
+        tokenizer: string;
+        instruct_type: string | null;
+    };
+    top_provider?: {
+        max_completion_tokens: number | null;
+        is_moderated: boolean;
+    };
+    reasoning?: ModelReasoningInfo;
+}
+
+/**
+ * Options for chat completions.
+ */
+export interface ChatCompletionOptions {
+    /** Cap on total completion tokens (reasoning + content). */
+    maxTokens?: number;
+    /** Reasoning config, in OpenRouter's unified shape; other providers map what they support. */
+    reasoning?: {
+        effort?: ReasoningEffort;
+        exclude?: boolean;
+    };
+}
+
+/**
+ * An event from a streaming chat completion: a piece of the answer, a piece
+ * of the model's reasoning (thinking) trace, why the model stopped (e.g.
+ * "stop", or "length" at the token limit), or the usage reported at the end.
+ */
+export type ChatStreamEvent =
+    | { type: 'content'; text: string }
+    | { type: 'reasoning'; text: string }
+    | { type: 'finish'; reason: string }
+    | { type: 'usage'; usage: ChatUsage };
+
+/**
+ * A backend that lists models and runs chat completions. Model IDs passed to
+ * a provider are its own (unprefixed) IDs.
+ */
+export interface ChatProvider {
+    /** Short identifier; prefixes this provider's model IDs outside of OpenRouter. */
+    readonly id: string;
+    /** Name shown to the user in notices and model lists. */
+    readonly name: string;
+
+    /** True when the provider has what it needs (e.g. an API key) to make requests. */
+    isConfigured(): boolean;
+    fetchModels(forceRefresh?: boolean): Promise<ModelInfo[]>;
+    getCachedModel(modelId: string): ModelInfo | undefined;
+    streamChatCompletion(
+        messages: ChatMessage[],
+        model: string,
+        signal: AbortSignal,
+        options?: ChatCompletionOptions
+    ): AsyncGenerator<ChatStreamEvent>;
+    getChatCompletion(model: string, messages: ChatMessage[], options?: ChatCompletionOptions, signal?: AbortSignal): Promise<string>;
+}
@@ -1,35 +1,165 @@
 import { Notice, Plugin, Editor, TFile, EditorPosition } from 'obsidian';
-import { PluginSettings, ChatMessage } from './types';
-import { OpenRouterService } from './OpenRouterService';
+import { PluginSettings, ChatMessage, ChatUsage, ChatReasoningEffort, CHAT_REASONING_EFFORTS } from './types';
+import { ChatCompletionOptions } from './ChatProvider';
+import { AbortedError, ChatCompletionError, ContextLengthError, isAbortError } from './errors';
+import { showErrorNotice } from './ErrorNotice';
+import { ProviderRegistry } from './ProviderRegistry';
+import { NoteContextService } from './NoteContextService';
+import { ResponseWriter } from './ResponseWriter';
+import { StreamTarget, TrackedOffset } from './StreamTarget';
 import { log } from './utils/logger';
-import { CHAT_BOUNDARY_MARKER, CHAT_SEPARATOR, createChatBoundaryRegex } from './constants';
+import {
+    CHAT_BOUNDARY_MARKER,
+    FRONTMATTER_MODEL_KEY,
+    FRONTMATTER_REASONING_KEY,
+    FRONTMATTER_COMPARE_MODELS_KEY,
+    FRONTMATTER_FALLBACK_MODELS_KEY,
+    THINKING_CALLOUT_TYPE,
+    VARIANT_CALLOUT_TYPE,
+    createChatBoundaryRegex
+} from './constants';
+import { getFrontmatterString, getFrontmatterList, stripFrontmatter } from './utils/frontmatter';
+import { getMessageText } from './utils/messages';
+import { findAnswerEnd, findLastResponse, formatAttributionTime, formatChatSeparator, formatRegeneratedTurn, MessageAttribution, ResponseRange, splitChatTurns } from './utils/chatNote';
+import {
+    ResponseVariants,
+    splitResponseVariants,
+    joinResponseVariants,
+    formatResponseVariants,
+    cycleResponseVariants
+} from './utils/variants';
+import { stripCallouts } from './utils/callouts';
+import { formatUsageFooter, stripUsageFooters, addUsageToTotals } from './utils/usage';
+import { estimateTokens, estimateMessagesTokens, getPromptTokenBudget, dropOldestTurns, truncateToTokens } from './utils/tokens';
+
+/**
+ * Per-call overrides for startChat.
+ */
+export interface StartChatOptions {
+    model?: string;          // Use this model instead of the note's effective model
+    systemPrompt?: string;   // Use this system prompt (text, [[link]] or library note name) instead of the note's
+    continueTurn?: boolean;  // insertionPos is inside an existing assistant turn; write without separators
+}
+
+/**
+ * Where the answer to a question about a selection goes: below the
+ * selection, or in its place (rewrite mode).
+ */
+export type SelectionChatMode = 'insert' | 'replace';
+
+interface StreamResult {
+    model: string; // The model that answered, which may be a fallback
+    usage: ChatUsage | null;
+    finishReason: string | null; // e.g. "stop", or "length" when cut off at the token limit
+}
+
+/**
+ * The "Calling model..." line shown until the first chunk arrives.
+ */
+interface StatusMessage {
+    text: string;
+    start: TrackedOffset;
+    end: TrackedOffset;
+}
 
 interface ActiveStreamInfo {
+    notePath: string;
+    model: string;
     controller: AbortController;
-    statusText: string;
-    statusStartPos: EditorPosition;
-    statusEndPos: EditorPosition;
+    target: StreamTarget;
+    startedAt: number;            // When the request was sent (ms since epoch)
+    firstChunkAt: number | null;  // When the first text arrived
+    outputTokens: number;         // Estimated tokens of the text received so far
+    // Status message of a single chat, removed when the stream is cancelled
+    status?: StatusMessage;
+    // Section of a compare chat: its heading and the marker at its end
+    section?: {
+        heading: string;
+        marker: string;
+    };
+}
+
+/**
+ * A chat stream in flight, as listed to the user.
+ */
+export interface ActiveStreamSummary {
+    streamId: string;
+    notePath: string;
+    model: string;
+    startedAt: number;
+    firstChunkAt: number | null;
+    outputTokens: number;
 }
 
 export class ChatService {
     private plugin: Plugin;
-    private openRouterService: OpenRouterService;
-    private activeStreams: Map<string, ActiveStreamInfo> = new Map(); // Key: note path
+    private providerRegistry: ProviderRegistry;
+    private noteContextService: NoteContextService;
+    private activeStreams: Map<string, ActiveStreamInfo> = new Map(); // Key: stream ID
+    private pendingNotes = new Set<string>(); // Notes a chat is being prepared for, before its streams are tracked
+    private nextStreamId = 1;
+    private streamListeners = new Set<() => void>();
 
-    constructor(plugin: Plugin, openRouterService: OpenRouterService) {
+    constructor(plugin: Plugin, providerRegistry: ProviderRegistry, noteContextService: NoteContextService) {
         this.plugin = plugin;
-        this.openRouterService = openRouterService;
+        this.providerRegistry = providerRegistry;
+        this.noteContextService = noteContextService;
+    }
+
+    /**
+     * Resolves the model a note chats with: the note's `model` frontmatter
+     * override if present, otherwise the default model from settings.
+     */
+    getEffectiveModel(file: TFile, settings: PluginSettings): string {
+        return getFrontmatterString(this.plugin.app, file, FRONTMATTER_MODEL_KEY) ?? settings.defaultModel;
+    }
+
+    /**
+     * Resolves the reasoning effort for a note: the note's `reasoning` frontmatter
+     * override if it's a known effort level, otherwise the chat reasoning setting.
+     */
+    getEffectiveReasoningEffort(file: TFile, settings: PluginSettings): ChatReasoningEffort {
+        const noteEffort = getFrontmatterString(this.plugin.app, file, FRONTMATTER_REASONING_KEY)?.toLowerCase();
+        if (noteEffort && (CHAT_REASONING_EFFORTS as string[]).includes(noteEffort)) {
+            return noteEffort as ChatReasoningEffort;
+        }
+        if (noteEffort) {
+            log.warn(`Ignoring unknown reasoning effort "${noteEffort}" in ${file.path}.`);
+        }
+        return settings.chatReasoningEffort;
+    }
+
+    /**
+     * Builds the reasoning config for a chat request. 'default' sends no
+     * reasoning field, leaving the model's own default behavior.
+     */
+    private buildChatCompletionOptions(file: TFile, model: string, settings: PluginSettings): ChatCompletionOptions {
+        const effort = this.getEffectiveReasoningEffort(file, settings);
+        // exclude: the reasoning trace isn't streamed back when it won't be shown
+        const exclude = !settings.showChatReasoning;
+
+        if (effort === 'default') {
+            return exclude ? { reasoning: { exclude } } : {};
+        }
+        // Models with mandatory reasoning reject effort 'none'; omit the effort
+        // so they use their default behavior instead of failing the chat.
+        if (effort === 'none' && this.providerRegistry.getModelReasoningInfo(model)?.mandatory) {
+            log.debug(`Model ${model} has mandatory reasoning; omitting reasoning effort.`);
+            return exclude ? { reasoning: { exclude } } : {};
+        }
+        return { reasoning: { effort, exclude } };
     }
 
     /**
      * Parses note content into ChatMessages, excluding content at or after a given position.
+     * Frontmatter is skipped so per-note settings aren't sent as conversation.
      * @param fullContent The raw string content of the note.
-     * @param separator The separator used to divide messages.
      * @param parseUntilPos The position in the editor up to which content should be parsed.
+     * @param systemPrompt Optional system prompt, prepended as a system message when the conversation isn't empty.
      * @returns An array of ChatMessage objects.
      */
-    private parseNoteContent(fullContent: string, separator: string, parseUntilOffset: number): ChatMessage[] {
-        const relevantContent = fullContent.substring(0, parseUntilOffset); // Content before the insertion point
+    private parseNoteContent(fullContent: string, parseUntilOffset: number, systemPrompt: string | null = null): ChatMessage[] {
+        const relevantContent = stripFrontmatter(fullContent.substring(0, parseUntilOffset)); // Content before the insertion point
 
         const boundaryRegex = createChatBoundaryRegex('gm');
 
@@ -52,31 +182,172 @@ export class ChatService {
         }
 
         // Proceed with splitting the correctly selected content
-        const parts = contentToParse.split(separator)
-                                    .map(part => part.trim())
-                                    .filter(part => part.length > 0);
-
-        const messages: ChatMessage[] = [];
-        let currentRole: 'user' | 'assistant' = 'user';
-
-        for (const part of parts) {
-             messages.push({ role: currentRole, content: part });
-            currentRole = currentRole === 'user' ? 'assistant' : 'user';
-        }
+        // Roles alternate between separators unless a separator names one (message-from="assistant" etc.).
+        // Reasoning callouts, response variants, and usage footers are for the reader; they are never sent back as context
+        const messages: ChatMessage[] = splitChatTurns(contentToParse)
+            .map(turn => ({
+                role: turn.role,
+                content: stripUsageFooters(stripCallouts(stripCallouts(contentToParse.substring(turn.bodyStart, turn.bodyEnd), VARIANT_CALLOUT_TYPE), THINKING_CALLOUT_TYPE)).trim(),
+            }))
+            .filter(message => message.content.length > 0);
 
         if (messages.length === 0) {
             log.debug("Parsing resulted in zero messages. Ensure note content before insertion point is structured correctly.");
+        } else if (systemPrompt) {
+            messages.unshift({ role: 'system', content: systemPrompt });
         }
         return messages;
     }
 
     /**
-     * Inserts text at a given position, ensuring it starts on a new line if necessary.
-     * @returns A tuple containing the start and end positions of the inserted text.
+     * Asks for a new answer to the note's last message. With variants enabled,
+     * the earlier answers are kept as folded variant callouts below the new one;
+     * otherwise they are replaced.
+     * @param model Optional model to regenerate with; defaults to the note's effective model.
+     */
+    async regenerateLastResponse(editor: Editor, file: TFile, settings: PluginSettings, model?: string): Promise<void> {
+        if (this.isStreamActive(file.path)) {
+            new Notice('A response is still streaming in this note. Stop it before regenerating.');
+            return;
+        }
+
+        const content = editor.getValue();
+        const response = this.findEditableLastResponse(content, 'regenerate');
+        if (!response) {
+            return;
+        }
+
+        let earlierAnswers: string[] = [];
+        if (settings.keepResponseVariants) {
+            const { current, variants } = splitResponseVariants(content.substring(response.bodyStart, response.bodyEnd));
+            earlierAnswers = [current, ...variants].filter(Boolean);
+        }
+        const variantsText = formatResponseVariants(earlierAnswers);
+
+        // Rebuild the turn empty, with the earlier answers below where the new one will stream
+        const originalTurn = content.substring(response.start);
+        const { turnStart, turnEnd } = formatRegeneratedTurn(response, variantsText);
+        const startPos = editor.offsetToPos(response.start);
+        editor.replaceRange(turnStart + turnEnd, startPos, editor.offsetToPos(content.length));
+        log.debug(`Regenerating last response, keeping ${earlierAnswers.length} earlier answer(s) as variants.`);
+
+        const insertionPos = editor.offsetToPos(response.start + turnStart.length);
+        const written = await this.startChat(editor, file, settings, insertionPos, { model, continueTurn: true });
+        if (!written) {
+            // Nothing new arrived (error, cancel, or empty reply); put the previous answer back
+            const current = editor.getValue();
+            if (current.substring(response.start) === turnStart + turnEnd) {
+                editor.replaceRange(originalTurn, startPos, editor.offsetToPos(current.length));
+                log.debug('Regeneration produced no response; restored the previous answer.');
+            }
+        }
+        editor.setCursor(editor.offsetToPos(editor.getValue().length));
+    }
+
+    /**
+     * Asks the model to carry on with the note's last response, e.g. after it
+     * was cut off at the token limit. The response is sent as an assistant
+     * prefill and the continuation is written straight after its text.
+     */
+    async continueLastResponse(editor: Editor, file: TFile, settings: PluginSettings): Promise<void> {
+        if (this.isStreamActive(file.path)) {
+            new Notice('A response is still streaming in this note. Wait for it to finish.');
+            return;
+        }
+
+        const content = editor.getValue();
+        const response = this.findEditableLastResponse(content, 'continue');
+        if (!response) {
+            return;
+        }
+        const answerEnd = findAnswerEnd(content.substring(response.bodyStart, response.bodyEnd));
+        if (answerEnd === null) {
+            new Notice("Couldn't tell where the last response's text ends. Remove its variants, then try again.");
+            return;
+        }
+
+        await this.startChat(editor, file, settings, editor.offsetToPos(response.bodyStart + answerEnd), { continueTurn: true });
+    }
+
+    /**
+     * Shows the next stored variant of the note's last response.
+     */
+    showNextResponseVariant(editor: Editor, file: TFile): void {
+        this.updateLastResponseVariants(editor, file, (turn) => {
+            if (turn.variants.length === 0) {
+                new Notice('The last response has no other variants. Regenerate it to create some.');
+                return null;
+            }
+            return cycleResponseVariants(turn);
+        });
+    }
+
+    /**
+     * Keeps the shown answer of the note's last response and discards its other variants.
+     */
+    acceptResponseVariant(editor: Editor, file: TFile): void {
+        this.updateLastResponseVariants(editor, file, (turn) => {
+            if (turn.variants.length === 0) {
+                new Notice('The last response has no other variants.');
+                return null;
+            }
+            if (!turn.current) {
+                new Notice('Show a variant first, then keep it.');
+                return null;
+            }
+            new Notice(`Kept the shown response; discarded ${turn.variants.length} variant(s).`);
+            return { current: turn.current, variants: [] };
+        });
+    }
+
+    /**
+     * Rewrites the variants of the note's last response.
+     * @param update Returns the new variants, or null to leave the note unchanged.
+     */
+    private updateLastResponseVariants(editor: Editor, file: TFile, update: (turn: ResponseVariants) => ResponseVariants | null): void {
+        if (this.isStreamActive(file.path)) {
+            new Notice('A response is still streaming in this note. Wait for it to finish.');
+            return;
+        }
+        const content = editor.getValue();
+        const response = this.findEditableLastResponse(content, 'change');
+        if (!response) {
+            return;
+        }
+        const updated = update(splitResponseVariants(content.substring(response.bodyStart, response.bodyEnd)));
+        if (!updated) {
+            return;
+        }
+        const body = `\n\n${joinResponseVariants(updated)}\n\n`;
+        editor.replaceRange(body, editor.offsetToPos(response.bodyStart), editor.offsetToPos(response.bodyEnd));
+    }
+
+    /**
+     * Finds the note's last response, explaining with a Notice when there is
+     * none or when it has already been replied to.
+     * @param action Verb for the notice, e.g. "regenerate".
      */
-    private insertTextAtPos(editor: Editor, text: string, pos: EditorPosition): [EditorPosition, EditorPosition] {
-        const currentOffset = editor.posToOffset(pos);
-        const docValue = editor.getValue();
+    private findEditableLastResponse(content: string, action: string): ResponseRange | null {
+        const response = findLastResponse(content);
+        if (!response) {
+            new Notice(`There is no response to ${action} in this note.`);
+            return null;
+        }
+        if (response.followedByText) {
+            new Notice(`The last response has been replied to, so it can't be changed. Remove the newer messages first.`);
+            return null;
+        }
+        return response;
+    }
+
+    /**
+     * Inserts a status message at a given offset, ensuring it starts on a new line if necessary.
+     * It stays out of the undo history, since it is removed again.
+     * @returns The status message, with its range tracked through later edits.
+     */
+    private insertStatusMessage(target: StreamTarget, text: string, offset: number): StatusMessage {
+        const currentOffset = offset;
+        const docValue = target.getText();
         let textToInsert = text;
 
         // Ensure the text starts on a new line unless it's at the very beginning
@@ -89,15 +360,22 @@ export class ChatService {
              textToInsert += '\n';
         }
 
-        const startInsertOffset = currentOffset;
-        const startInsertPos = editor.offsetToPos(startInsertOffset);
-
-        editor.replaceRange(textToInsert, startInsertPos, startInsertPos);
-
-        const endInsertOffset = startInsertOffset + textToInsert.length;
-        const endInsertPos = editor.offsetToPos(endInsertOffset);
+        target.replace(textToInsert, currentOffset);
+        return {
+            text,
+            start: target.track(currentOffset, false),
+            end: target.track(currentOffset + textToInsert.length),
+        };
+    }
 
-        return [startInsertPos, endInsertPos];
+    /**
+     * Moves the cursor to an offset, if the note is still open in its editor.
+     */
+    private placeCursor(target: StreamTarget, offset: number): void {
+        const editor = target.getEditor();
+        if (editor) {
+            editor.setCursor(editor.offsetToPos(offset));
+        }
     }
 
 
@@ -107,246 +385,1000 @@ export class ChatService {
      * @param file The file associated with the editor.
      * @param settings The current plugin settings.
      * @param insertionPos The position in the editor where the chat should be initiated (e.g., cursor).
+     * @param options Optional overrides, such as a different model for this response only.
+     * @returns True if anything was written into the note.
      */
     async startChat(
         editor: Editor,
         file: TFile,
         settings: PluginSettings,
-        insertionPos: EditorPosition
-    ): Promise<void> {
+        insertionPos: EditorPosition,
+        options: StartChatOptions = {}
+    ): Promise<boolean> {
         const notePath = file.path;
 
-        if (this.activeStreams.has(notePath)) {
+        if (this.isStreamActive(notePath)) {
             new Notice(`Chat stream already active for note: ${notePath}. Please wait or cancel.`);
             log.debug(`Chat stream already active for note: ${notePath}. Ignoring new request.`);
-            return;
+            return false;
         }
+        this.pendingNotes.add(notePath); // Until the stream is tracked
+
+        const model = options.model || this.getEffectiveModel(file, settings);
+        const attribution: MessageAttribution = { model, time: formatAttributionTime(new Date()) };
 
         // 1. Insert Status Message
-        const statusMessage = `Calling ${settings.defaultModel}...`;
-        const [actualStatusStartPos, actualStatusEndPos] = this.insertTextAtPos(editor, statusMessage, insertionPos);
-        log.debug(`Inserted status message from [${actualStatusStartPos.line}, ${actualStatusStartPos.ch}] to [${actualStatusEndPos.line}, ${actualStatusEndPos.ch}]`);
-        editor.setCursor(actualStatusEndPos); // Move cursor after status message
+        // The target follows the note through edits, and to the file if the note is closed mid-stream
+        const target = new StreamTarget(this.plugin.app, file, editor);
+        const status = this.insertStatusMessage(target, `Calling ${model}...`, editor.posToOffset(insertionPos));
+        log.debug(`Inserted status message at offsets ${status.start.offset}-${status.end.offset}`);
+        this.placeCursor(target, status.end.offset); // Move cursor after status message
 
-        // 2. Parse Content *before* the status message
-        const parseUntilOffset = editor.posToOffset(actualStatusStartPos);
-        const messages = this.parseNoteContent(editor.getValue(), CHAT_SEPARATOR, parseUntilOffset);
+        // 2. Parse Content *before* the status message, capturing it before any await
+        const parseUntilOffset = status.start.offset;
+        const noteContent = target.getText();
+
+        let systemPrompt: string | null;
+        try {
+            systemPrompt = await this.noteContextService.resolveSystemPrompt(file, settings, options.systemPrompt);
+        } catch (error) {
+            log.error('Error resolving system prompt:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            new Notice(`Configuration error: ${message}. Please check the note's "system" property or plugin settings.`);
+            this.removeStatusMessage(target, status, 'System prompt could not be resolved.');
+            this.placeCursor(target, status.start.offset);
+            target.release();
+            this.pendingNotes.delete(notePath);
+            return false;
+        }
+
+        let messages = this.parseNoteContent(noteContent, parseUntilOffset, systemPrompt);
 
         if (messages.length === 0) {
             new Notice('No content found before the chat initiation point.');
-            this.removeStatusMessageAtPos(editor, statusMessage, actualStatusStartPos, actualStatusEndPos, 'No content found.');
-            editor.setCursor(actualStatusStartPos); // Move cursor back
-            return;
+            this.removeStatusMessage(target, status, 'No content found.');
+            this.placeCursor(target, status.start.offset); // Move cursor back
+            target.release();
+            this.pendingNotes.delete(notePath);
+            return false;
         }
 
+        // A conversation ending in an assistant message (a prefill, or a cut-off answer being continued)
+        // is extended in place. Otherwise the response opens a new turn, marked as the assistant's if
+        // alternation wouldn't make it so.
+        const lastRole = messages[messages.length - 1].role;
+        const continuesAnswer = lastRole === 'assistant';
+        const answerEnd = target.track(noteContent.substring(0, parseUntilOffset).replace(/\s+$/, '').length, false);
+        const openingRole = lastRole === 'user' ? null : 'assistant';
+        const keepsAttribution = continuesAnswer && !!options.continueTurn; // A continued response stays attributed to its start
+
         // 3. Set up AbortController and track stream
         const abortController = new AbortController();
-        this.activeStreams.set(notePath, {
+        const streamId = this.createStreamId();
+        this.trackStream(streamId, {
+            notePath,
+            model,
             controller: abortController,
-            statusText: statusMessage,
-            statusStartPos: actualStatusStartPos,
-            statusEndPos: actualStatusEndPos
+            target,
+            startedAt: Date.now(),
+            firstChunkAt: null,
+            outputTokens: 0,
+            status,
         });
+        this.pendingNotes.delete(notePath);
 
-        let isFirstChunk = true;
-        let currentInsertPos: EditorPosition | null = null; // Position where the next chunk should be inserted
-        let lastPosition: EditorPosition | null = null; // Tracks the end of the last inserted chunk
+        const writer = new ResponseWriter(target);
+        let usage: ChatUsage | null = null;
+        let finishReason: string | null = null;
+        let answeringModel = model;
 
         try {
             // 4. Call API and Stream Response
-            const streamGenerator = this.openRouterService.streamChatCompletion(
-                messages,
-                settings,
-                abortController.signal
-            );
-
-            for await (const chunk of streamGenerator) {
-                if (chunk) {
-                    if (isFirstChunk) {
-                        // 4a. Remove status message
-                        this.removeStatusMessageAtPos(editor, statusMessage,
-                            actualStatusStartPos, actualStatusEndPos, 'First chunk received.');
-
-                        // 4b. Insert separator with normalized spacing
-                        currentInsertPos = this.insertSeparatorWithSpacing(
-                            editor,
-                            actualStatusStartPos, // Insert where status message was
-                            CHAT_SEPARATOR
-                        );
-
-                        // 4c. Insert the first chunk
-                        editor.replaceRange(chunk, currentInsertPos, currentInsertPos);
-                        lastPosition = editor.offsetToPos(
-                            editor.posToOffset(currentInsertPos) + chunk.length
-                        );
-                        isFirstChunk = false;
-                    } else {
-                        // 4d. Insert subsequent chunks
-                        if (!lastPosition) {
-                            throw new Error("Internal state error: lastPosition not set after first chunk.");
-                        }
-                        editor.replaceRange(chunk, lastPosition, lastPosition);
-                        lastPosition = editor.offsetToPos(
-                            editor.posToOffset(lastPosition) + chunk.length
-                        );
-                    }
+            const preparedMessages = await this.prepareMessagesForModel(messages, file, model, settings, abortController.signal);
+            if (!preparedMessages) {
+                this.removeStatusMessage(target, status, 'Conversation exceeds the context window.');
+                this.placeCursor(target, status.start.offset);
+                return false;
+            }
+            messages = preparedMessages;
 
+            const models = [model, ...this.getFallbackModels(file, settings).filter(fallback => fallback !== model)];
+            ({ model: answeringModel, usage, finishReason } = await this.streamIntoWriter(streamId, writer, messages, models, file, settings, abortController.signal, (respondingModel) => {
+                attribution.model = respondingModel;
+
+                // 4a. Remove status message
+                this.removeStatusMessage(target, status, 'First chunk received.');
+
+                // 4b. Insert separator where the status message was (when continuing a turn, re-attribute its separator)
+                if (continuesAnswer) {
+                    // A prefill's turn still needs closing; a continued response's turn already is
+                    writer.resume(answerEnd.offset, { closeTurn: !options.continueTurn, continuesAnswer: true });
+                    if (!keepsAttribution) {
+                        writer.attribute(attribution);
+                    }
+                } else if (options.continueTurn) {
+                    writer.resume(status.start.offset);
+                    writer.attribute(attribution);
+                } else {
+                    writer.begin(status.start.offset, formatChatSeparator(attribution, openingRole));
                 }
-            } // End for await loop
+            }));
 
             // 5. Handle Stream Completion
-            if (isFirstChunk) {
+            if (!writer.hasStarted) {
                 // No chunks received - status message should still be there
-                this.removeStatusMessageAtPos(editor, statusMessage, actualStatusStartPos, actualStatusEndPos, 'Stream ended with no content.');
-                editor.setCursor(actualStatusStartPos); // Move cursor back to where status was
+                this.removeStatusMessage(target, status, 'Stream ended with no content.');
+                this.placeCursor(target, status.start.offset); // Move cursor back to where status was
                 new Notice("Chat completed with no response.");
-            } else if (lastPosition) {
-                // Append final separator and position cursor
-                lastPosition = this.insertSeparatorWithSpacing(
-                    editor,
-                    lastPosition,
-                    CHAT_SEPARATOR
-                );
-                editor.setCursor(lastPosition); // Set cursor after the separator
+            } else {
+                if (usage) {
+                    if (!keepsAttribution) {
+                        writer.attribute({ ...attribution, usage });
+                    }
+                    if (settings.showUsageFooter) {
+                        writer.writeFooter(formatUsageFooter(answeringModel, usage));
+                    }
+                }
+                // Append final separator and position cursor after it
+                this.placeCursor(target, writer.finish());
+                await target.whenWritten();
+                if (finishReason === 'length') {
+                    const phrase = settings.continueCommandPhrase ? `type "${settings.continueCommandPhrase}" or ` : '';
+                    new Notice(`The response was cut off at the token limit. To continue it, ${phrase}run "Continue last response".`, 8000);
+                }
+                if (usage && settings.recordUsageInFrontmatter) {
+                    await this.recordUsageInFrontmatter(file, [usage]);
+                }
             }
         } catch (error: any) {
             // 6. Handle Errors
             log.error('Error during chat stream orchestration:', error);
-            let reason = 'Unknown stream error';
-            let noticeMessage = 'Chat error: Unknown error';
-
-            if (error instanceof DOMException && error.name === 'AbortError') {
+            let reason: string;
+            if (isAbortError(error)) {
                 reason = abortController.signal.reason || 'Chat cancelled by user';
-                noticeMessage = `Chat request cancelled: ${reason}`;
-            } else if (error instanceof Error) {
-                reason = error.message;
-                if (reason.includes("API key") || reason.includes("default model")) {
-                    noticeMessage = `Configuration error: ${reason}. Please check plugin settings.`;
-                } else {
-                    noticeMessage = `Chat error: ${reason}`;
-                }
+                new Notice(`Chat request cancelled: ${reason}`);
             } else {
-                 reason = String(error);
-                 noticeMessage = `Chat error: ${reason}`;
+                reason = error instanceof Error ? error.message : String(error);
+                showErrorNotice(this.plugin, error);
             }
-            new Notice(noticeMessage);
 
             // If the error occurred before the first chunk, status message should still be present
-            if (isFirstChunk) {
+            if (!writer.hasStarted) {
                 log.debug("Error occurred before first chunk, attempting status message cleanup.");
-                this.removeStatusMessageAtPos(editor, statusMessage, actualStatusStartPos, actualStatusEndPos, `Error/Cancel occurred: ${reason}`);
-                editor.setCursor(actualStatusStartPos); // Move cursor back
+                this.removeStatusMessage(target, status, `Error/Cancel occurred: ${reason}`);
+                this.placeCursor(target, status.start.offset); // Move cursor back
             } else {
                  log.debug("Error occurred after first chunk, status message should already be removed.");
-                 // Cursor might be somewhere in the partially inserted response
+                 // Keep what arrived before the error; cursor might be somewhere in the partially inserted response
+                 try {
+                     writer.stop();
+                 } catch (stopError) {
+                     log.warn('Could not write the rest of the stopped response:', stopError);
+                 }
             }
         } finally {
             // 7. Final Cleanup
-            this.activeStreams.delete(notePath);
-            log.debug(`Removed active stream tracker for note: ${notePath}`);
+            this.untrackStream(streamId);
+            target.release();
+            log.debug(`Removed active stream tracker ${streamId} for note: ${notePath}`);
+        }
+        return writer.hasStarted;
+    }
+
+    /**
+     * Asks the model about a passage instead of the whole note: only the
+     * selected text and an instruction are sent, and the note isn't read as a
+     * chat. The answer is written below the selection's last line, or replaces
+     * the selection in rewrite mode. Either way it is a single undo step.
+     * @param from Start offset of the selection.
+     * @param to End offset of the selection.
+     * @returns True if anything was written into the note.
+     */
+    async askAboutSelection(
+        editor: Editor,
+        file: TFile,
+        settings: PluginSettings,
+        from: number,
+        to: number,
+        instruction: string,
+        mode: SelectionChatMode
+    ): Promise<boolean> {
+        const notePath = file.path;
+        if (this.isStreamActive(notePath)) {
+            new Notice(`Chat stream already active for note: ${notePath}. Please wait or cancel.`);
+            return false;
+        }
+
+        const target = new StreamTarget(this.plugin.app, file, editor);
+        const noteContent = target.getText();
+        const selectedText = noteContent.substring(from, to);
+        if (!selectedText.trim()) {
+            new Notice('Select the text to ask about first.');
+            target.release();
+            return false;
+        }
+        this.pendingNotes.add(notePath); // Until the stream is tracked
+
+        // The status goes on its own line after the selection's last line
+        const selectionStart = target.track(from, false);
+        const selectionEnd = target.track(to, false);
+        const lineEnd = noteContent.indexOf('\n', Math.max(from, to - 1));
+        const model = this.getEffectiveModel(file, settings);
+        const status = this.insertStatusMessage(target, `Calling ${model}...`, lineEnd === -1 ? noteContent.length : lineEnd);
+
+        let systemPrompt: string | null;
+        try {
+            systemPrompt = await this.noteContextService.resolveSystemPrompt(file, settings);
+        } catch (error) {
+            log.error('Error resolving system prompt:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            new Notice(`Configuration error: ${message}. Please check the note's "system" property or plugin settings.`);
+            this.removeStatusMessage(target, status, 'System prompt could not be resolved.');
+            target.release();
+            this.pendingNotes.delete(notePath);
+            return false;
+        }
+
+        const abortController = new AbortController();
+        const streamId = this.createStreamId();
+        this.trackStream(streamId, {
+            notePath,
+            model,
+            controller: abortController,
+            target,
+            startedAt: Date.now(),
+            firstChunkAt: null,
+            outputTokens: 0,
+            status,
+        });
+        this.pendingNotes.delete(notePath);
+
+        const writer = new ResponseWriter(target);
+        let needsBlankLineAfter = false; // Whether the inserted answer needs a blank line after it
+        try {
+            const messages = await this.prepareMessagesForModel(
+                this.buildSelectionMessages(selectedText, instruction, mode, systemPrompt), file, model, settings, abortController.signal);
+            if (!messages) {
+                this.removeStatusMessage(target, status, 'Selection exceeds the context window.');
+                return false;
+            }
+
+            const models = [model, ...this.getFallbackModels(file, settings).filter(fallback => fallback !== model)];
+            const { usage } = await this.streamIntoWriter(streamId, writer, messages, models, file, settings, abortController.signal, () => {
+                this.removeStatusMessage(target, status, 'First chunk received.');
+                // Reasoning is dropped either way: the answer is plain text in the note
+                if (mode === 'replace') {
+                    writer.resume(selectionStart.offset, { continuesAnswer: true, replaceTo: selectionEnd.offset });
+                } else {
+                    const offset = status.start.offset;
+                    needsBlankLineAfter = /^\n[^\n]/.test(target.getText().substring(offset));
+                    writer.resume(offset, { continuesAnswer: true });
+                    writer.writeContent('\n\n');
+                }
+            });
+
+            if (!writer.hasStarted) {
+                this.removeStatusMessage(target, status, 'Stream ended with no content.');
+                new Notice("Chat completed with no response.");
+                return false;
+            }
+            if (needsBlankLineAfter) {
+                writer.writeContent('\n');
+            }
+            this.placeCursor(target, writer.finish());
+            await target.whenWritten();
+            if (usage && settings.recordUsageInFrontmatter) {
+                await this.recordUsageInFrontmatter(file, [usage]);
+            }
+        } catch (error) {
+            log.error('Error while answering about a selection:', error);
+            if (isAbortError(error)) {
+                new Notice(`Chat request cancelled: ${abortController.signal.reason || 'Chat cancelled by user'}`);
+            } else {
+                showErrorNotice(this.plugin, error);
+            }
+            if (!writer.hasStarted) {
+                this.removeStatusMessage(target, status, 'Error or cancel before the first chunk.');
+            } else {
+                try {
+                    writer.stop();
+                } catch (stopError) {
+                    log.warn('Could not write the rest of the stopped response:', stopError);
+                }
+            }
+        } finally {
+            this.untrackStream(streamId);
+            target.release();
+        }
+        return writer.hasStarted;
+    }
+
+    /**
+     * Streams a rewrite of a passage without writing anything into the note,
+     * e.g. to preview it before it replaces the selection. Falls back to the
+     * note's fallback models like startChat does.
+     * @param onText Called with the rewrite so far each time more arrives.
+     * @returns The complete rewrite.
+     * @throws ChatCompletionError (see errors.ts) if the request fails or is cancelled.
+     */
+    async streamSelectionRewrite(
+        file: TFile,
+        settings: PluginSettings,
+        selectedText: string,
+        instruction: string,
+        signal: AbortSignal,
+        onText: (text: string) => void
+    ): Promise<string> {
+        const model = this.getEffectiveModel(file, settings);
+        const systemPrompt = await this.noteContextService.resolveSystemPrompt(file, settings);
+        const messages = await this.prepareMessagesForModel(
+            this.buildSelectionMessages(selectedText, instruction, 'replace', systemPrompt), file, model, settings, signal);
+        if (!messages) {
+            throw new ContextLengthError('The selection is too long for the model.');
+        }
+
+        const models = [model, ...this.getFallbackModels(file, settings).filter(fallback => fallback !== model)];
+        let rewrite = '';
+        let usage: ChatUsage | null = null;
+        for (let index = 0; ; index++) {
+            const current = models[index];
+            try {
+                const stream = this.providerRegistry.streamChatCompletion(messages, current, signal, this.buildChatCompletionOptions(file, current, settings));
+                for await (const event of stream) {
+                    if (event.type === 'content' && event.text) {
+                        rewrite += event.text;
+                        onText(rewrite);
+                    } else if (event.type === 'usage') {
+                        usage = event.usage;
+                    }
+                }
+                break;
+            } catch (error) {
+                // As in streamIntoWriter: only a transient failure before any text moves on to the next model
+                const fallback = models[index + 1];
+                if (!fallback || rewrite || !(error instanceof ChatCompletionError && error.isTransient)) {
+                    throw error;
+                }
+                log.warn(`${current} is unavailable, falling back to ${fallback}:`, error);
+                new Notice(`${current} is unavailable (${error.message}). Trying ${fallback}.`);
+            }
+        }
+        if (signal.aborted) {
+            throw new AbortedError(signal.reason || 'Rewrite cancelled');
+        }
+        if (usage && settings.recordUsageInFrontmatter) {
+            await this.recordUsageInFrontmatter(file, [usage]);
         }
+        return rewrite;
     }
 
+    /**
+     * Builds the request for askAboutSelection and streamSelectionRewrite:
+     * the system prompt, then the instruction with the selected text quoted below it.
+     */
+    private buildSelectionMessages(selectedText: string, instruction: string, mode: SelectionChatMode, systemPrompt: string | null): ChatMessage[] {
+        const task = mode === 'replace'
+            ? 'Rewrite the text below as instructed. Reply with only the rewritten text: no introduction, explanation, or quotation marks.'
+            : 'Follow the instruction for the text below.';
+        const messages: ChatMessage[] = [];
+        if (systemPrompt) {
+            messages.push({ role: 'system', content: systemPrompt });
+        }
+        messages.push({ role: 'user', content: `${task}\n\nInstruction: ${instruction}\n\nText:\n"""\n${selectedText}\n"""` });
+        return messages;
+    }
+
+    /**
+     * Resolves the models a chat falls back to, in order, when its model is
+     * unavailable: the note's `fallback-models` frontmatter list if present,
+     * otherwise the list from settings.
+     */
+    getFallbackModels(file: TFile, settings: PluginSettings): string[] {
+        return getFrontmatterList(this.plugin.app, file, FRONTMATTER_FALLBACK_MODELS_KEY)
+            ?? settings.fallbackModels.split(',').map(model => model.trim()).filter(Boolean);
+    }
+
+    /**
+     * Resolves the models a note compares: the note's `compare-models`
+     * frontmatter list if present, otherwise the list from settings.
+     */
+    getCompareModels(file: TFile, settings: PluginSettings): string[] {
+        return getFrontmatterList(this.plugin.app, file, FRONTMATTER_COMPARE_MODELS_KEY)
+            ?? settings.compareModels.split(',').map(model => model.trim()).filter(Boolean);
+    }
+
+    /**
+     * Asks several models the same conversation at once, streaming each answer
+     * into its own labeled section of a single response. Each section can be
+     * cancelled on its own (see cancelStream).
+     * @param insertionPos The position in the editor where the response should go.
+     */
+    async startComparison(editor: Editor, file: TFile, settings: PluginSettings, insertionPos: EditorPosition): Promise<void> {
+        const notePath = file.path;
+        if (this.isStreamActive(notePath)) {
+            new Notice(`Chat stream already active for note: ${notePath}. Please wait or cancel.`);
+            return;
+        }
+
+        const models = this.getCompareModels(file, settings);
+        if (models.length < 2) {
+            new Notice(`Set at least two models to compare, in the note's "${FRONTMATTER_COMPARE_MODELS_KEY}" property or in the plugin settings.`);
+            return;
+        }
+
+        // Claimed until the streams are tracked, so a second chat can't start while the prompt resolves
+        this.pendingNotes.add(notePath);
+
+        // Parse before anything is written, so the sections aren't part of the conversation
+        const target = new StreamTarget(this.plugin.app, file, editor);
+        const noteContent = target.getText();
+        const insertion = target.track(editor.posToOffset(insertionPos), false);
+        const parseUntilOffset = insertion.offset;
+        let systemPrompt: string | null;
+        try {
+            systemPrompt = await this.noteContextService.resolveSystemPrompt(file, settings);
+        } catch (error) {
+            log.error('Error resolving system prompt:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            new Notice(`Configuration error: ${message}. Please check the note's "system" property or plugin settings.`);
+            target.release();
+            this.pendingNotes.delete(notePath);
+            return;
+        }
+        const messages = this.parseNoteContent(noteContent, parseUntilOffset, systemPrompt);
+        if (messages.length === 0) {
+            new Notice('No content found before the chat initiation point.');
+            target.release();
+            this.pendingNotes.delete(notePath);
+            return;
+        }
+
+        // Lay out one section per model; each stream writes in front of its own marker
+        const sections = models.map(model => {
+            const streamId = this.createStreamId();
+            return {
+                model,
+                streamId,
+                heading: `### ${model}`,
+                anchor: { marker: `<!-- snc-stream:${streamId} -->`, placeholder: `Calling ${model}...` },
+            };
+        });
+        const layout = new ResponseWriter(target);
+        const openingRole = messages[messages.length - 1].role === 'user' ? null : 'assistant';
+        layout.begin(insertion.offset, formatChatSeparator({ model: models.join(', '), time: formatAttributionTime(new Date()) }, openingRole));
+        layout.writeContent(sections.map(section => `${section.heading}\n\n${section.anchor.placeholder}${section.anchor.marker}`).join('\n\n'));
+        this.placeCursor(target, layout.finish(false)); // The sections fill in below; recorded for undo once they're done
+
+        const streams = sections.map(section => {
+            const controller = new AbortController();
+            this.trackStream(section.streamId, {
+                notePath,
+                model: section.model,
+                controller,
+                target,
+                startedAt: Date.now(),
+                firstChunkAt: null,
+                outputTokens: 0,
+                section: { heading: section.heading, marker: section.anchor.marker },
+            });
+            return this.streamComparisonSection(section.streamId, new ResponseWriter(target, section.anchor), messages, section.model, file, settings, controller)
+                .finally(() => this.untrackStream(section.streamId));
+        });
+        this.pendingNotes.delete(notePath);
+        const usages = await Promise.all(streams);
+
+        layout.commitToHistory();
+        target.release();
+        try {
+            await target.whenWritten();
+        } catch (error) {
+            new Notice(`Could not save the comparison: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        // Recorded once at the end: writing frontmatter mid-stream would race the other sections
+        const recorded = usages.filter((usage): usage is ChatUsage => usage !== null);
+        if (recorded.length > 0 && settings.recordUsageInFrontmatter) {
+            await this.recordUsageInFrontmatter(file, recorded);
+        }
+    }
+
+    /**
+     * Streams one model's answer into its compare section. Failures are written
+     * into the section instead of interrupting the other models.
+     * @returns The usage reported for the answer, if any.
+     */
+    private async streamComparisonSection(
+        streamId: string,
+        writer: ResponseWriter,
+        messages: ChatMessage[],
+        model: string,
+        file: TFile,
+        settings: PluginSettings,
+        controller: AbortController
+    ): Promise<ChatUsage | null> {
+        try {
+            const preparedMessages = await this.prepareMessagesForModel(messages, file, model, settings, controller.signal);
+            if (!preparedMessages) {
+                writer.resume();
+                writer.writeContent("*Skipped: the conversation doesn't fit this model's context window.*");
+                writer.finish();
+                return null;
+            }
+
+            const { usage, finishReason } = await this.streamIntoWriter(streamId, writer, preparedMessages, [model], file, settings, controller.signal, () => writer.resume());
+            if (!writer.hasStarted) {
+                writer.resume();
+                writer.writeContent('*No response.*');
+            } else {
+                if (finishReason === 'length') {
+                    writer.writeFooter('*Cut off at the token limit.*');
+                }
+                if (usage && settings.showUsageFooter) {
+                    writer.writeFooter(formatUsageFooter(model, usage));
+                }
+            }
+            writer.finish();
+            return usage;
+        } catch (error) {
+            const cancelled = isAbortError(error);
+            const reason = cancelled ? 'Cancelled.' : `Error: ${error instanceof Error ? error.message : String(error)}`;
+            log.error(`Compare stream for ${model} ended early:`, error);
+            try {
+                if (writer.hasStarted) {
+                    writer.writeFooter(`*${reason}*`);
+                } else {
+                    writer.resume();
+                    writer.writeContent(`*${reason}*`);
+                }
+                writer.finish();
+            } catch (cleanupError) {
+                // The section itself may have been deleted by the user
+                log.warn(`Could not close the compare section for ${model}:`, cleanupError);
+            }
+            if (!cancelled) {
+                showErrorNotice(this.plugin, error, model);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Adds the message context the model needs beyond the note text: linked
+     * notes and images (as enabled), then fits the result to its context window.
+     * @param signal The chat's AbortSignal, which also cancels summarizing older messages.
+     * @returns The messages to send, or null if the chat shouldn't be sent (a Notice explains why).
+     */
+    private async prepareMessagesForModel(
+        messages: ChatMessage[],
+        file: TFile,
+        model: string,
+        settings: PluginSettings,
+        signal: AbortSignal
+    ): Promise<ChatMessage[] | null> {
+        if (settings.expandLinks) {
+            messages = await this.noteContextService.expandLinks(messages, file, settings);
+        }
+        if (settings.attachImages) {
+            // Unknown capabilities (e.g. router models) get the images and let the API decide
+            const acceptsImages = this.providerRegistry.modelAcceptsImages(model) !== false;
+            const attached = await this.noteContextService.attachImages(messages, file, acceptsImages);
+            messages = attached.messages;
+            if (!acceptsImages && attached.imageCount > 0) {
+                new Notice(`${model} does not accept image input. Sending without the ${attached.imageCount} embedded image(s).`);
+            }
+        }
+        return this.fitToContextWindow(messages, model, settings, signal);
+    }
+
+    /**
+     * Streams a response into the writer, skipping reasoning when it isn't shown.
+     * If a model fails with a transient error (after retries) before sending
+     * anything, the next model in the list is asked instead.
+     * @param models The model to ask, followed by its fallbacks.
+     * @param onFirstChunk Called with the answering model before the first text is written; must start the writer.
+     * @returns The answering model, why it stopped, and the usage reported at the end of the stream, if known.
+     */
+    private async streamIntoWriter(
+        streamId: string,
+        writer: ResponseWriter,
+        messages: ChatMessage[],
+        models: string[],
+        file: TFile,
+        settings: PluginSettings,
+        signal: AbortSignal,
+        onFirstChunk: (model: string) => void
+    ): Promise<StreamResult> {
+        for (let index = 0; ; index++) {
+            const model = models[index];
+            let received = false;
+            try {
+                return await this.streamModelIntoWriter(streamId, writer, messages, model, file, settings, signal, () => {
+                    received = true;
+                }, () => onFirstChunk(model));
+            } catch (error) {
+                const fallback = models[index + 1];
+                if (!fallback || received || !(error instanceof ChatCompletionError && error.isTransient)) {
+                    throw error;
+                }
+                log.warn(`${model} is unavailable, falling back to ${fallback}:`, error);
+                new Notice(`${model} is unavailable (${error.message}). Trying ${fallback}.`);
+                this.setStreamModel(streamId, fallback);
+            }
+        }
+    }
+
+    /**
+     * Streams one model's response into the writer (see streamIntoWriter).
+     * @param onEvent Called for every event received, before it is handled.
+     */
+    private async streamModelIntoWriter(
+        streamId: string,
+        writer: ResponseWriter,
+        messages: ChatMessage[],
+        model: string,
+        file: TFile,
+        settings: PluginSettings,
+        signal: AbortSignal,
+        onEvent: () => void,
+        onFirstChunk: () => void
+    ): Promise<StreamResult> {
+        const result: StreamResult = { model, usage: null, finishReason: null };
+        const streamGenerator = this.providerRegistry.streamChatCompletion(
+            messages,
+            model,
+            signal,
+            this.buildChatCompletionOptions(file, model, settings)
+        );
+
+        for await (const event of streamGenerator) {
+            onEvent();
+            if (event.type === 'usage') {
+                result.usage = event.usage;
+                continue;
+            }
+            if (event.type === 'finish') {
+                result.finishReason = event.reason;
+                continue;
+            }
+            if (!event.text) {
+                continue;
+            }
+            this.recordStreamOutput(streamId, event.text);
+            if (event.type === 'reasoning' && !settings.showChatReasoning) {
+                continue;
+            }
+
+            if (!writer.hasStarted) {
+                onFirstChunk();
+            }
+
+            if (event.type === 'reasoning') {
+                if (!writer.writeReasoning(event.text)) {
+                    log.debug('Dropped reasoning chunk received after the answer started.');
+                }
+            } else {
+                writer.writeContent(event.text);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Adds responses' usage to the running totals in the note's frontmatter.
+     * Failures are logged rather than surfaced, since the responses themselves succeeded.
+     */
+    private async recordUsageInFrontmatter(file: TFile, usages: ChatUsage[]): Promise<void> {
+        try {
+            await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                usages.forEach(usage => addUsageToTotals(frontmatter, usage));
+            });
+        } catch (error) {
+            log.error(`Failed to record usage in frontmatter of ${file.path}:`, error);
+        }
+    }
+
+    /**
+     * Checks the estimated prompt size against the model's context window and,
+     * when it doesn't fit, applies the configured overflow strategy: refuse,
+     * drop the oldest turns, or replace them with a summary (falling back to
+     * dropping them if the summary request fails).
+     * @returns The messages to send, or null if the chat shouldn't be sent (a Notice explains why).
+     */
+    private async fitToContextWindow(messages: ChatMessage[], model: string, settings: PluginSettings, signal: AbortSignal): Promise<ChatMessage[] | null> {
+        let modelInfo = this.providerRegistry.getCachedModel(model);
+        if (!modelInfo) {
+            try {
+                await this.providerRegistry.fetchModels();
+            } catch (error) {
+                log.debug('Could not load models for context budgeting:', error);
+            }
+            modelInfo = this.providerRegistry.getCachedModel(model);
+        }
+        if (!modelInfo?.context_length) {
+            log.debug(`Context length unknown for ${model}; skipping context budget check.`);
+            return messages;
+        }
+
+        const budget = getPromptTokenBudget(
+            modelInfo.context_length,
+            modelInfo.top_provider?.max_completion_tokens,
+            settings.responseTokenReserve
+        );
+        const estimatedTokens = estimateMessagesTokens(messages);
+        log.debug(`Estimated prompt tokens: ${estimatedTokens}, budget for ${model}: ${budget}`);
+        if (estimatedTokens <= budget) {
+            return messages;
+        }
+
+        const overBudget = `This chat is about ${estimatedTokens.toLocaleString()} tokens, more than the ${budget.toLocaleString()} available for ${model}`;
+        const suggestion = 'Shorten the note, add a ^^^ boundary, or pick a longer-context model.';
+
+        if (settings.contextOverflowStrategy === 'refuse') {
+            new Notice(`${overBudget}. ${suggestion}`);
+            return null;
+        }
+
+        const { kept, dropped, fits } = dropOldestTurns(messages, budget);
+        if (!fits) {
+            new Notice(`${overBudget}, even without older messages. ${suggestion}`);
+            return null;
+        }
+
+        if (settings.contextOverflowStrategy === 'summarize') {
+            new Notice(`${overBudget}. Summarizing ${dropped.length} older message(s)...`);
+            try {
+                const summary = await this.summarizeMessages(dropped, model, settings, budget, signal);
+                const withSummary = this.addSummaryToSystemPrompt(kept, summary);
+                if (estimateMessagesTokens(withSummary) <= budget) {
+                    return withSummary;
+                }
+                log.warn('Summary of older messages does not fit the context window; sending without it.');
+            } catch (error) {
+                if (isAbortError(error)) {
+                    throw error;
+                }
+                // Still answer, just without the older messages
+                log.error('Could not summarize older messages:', error);
+                const message = error instanceof Error ? error.message : String(error);
+                new Notice(`Could not summarize older messages (${message}). Left out the ${dropped.length} oldest message(s) instead.`);
+                return kept;
+            }
+        }
+
+        new Notice(`${overBudget}. Left out the ${dropped.length} oldest message(s).`);
+        return kept;
+    }
+
+    /**
+     * Asks the model to condense older conversation turns into a short summary.
+     */
+    private async summarizeMessages(
+        messages: ChatMessage[],
+        model: string,
+        settings: PluginSettings,
+        tokenBudget: number,
+        signal: AbortSignal
+    ): Promise<string> {
+        const transcript = messages
+            .map(message => `${message.role.toUpperCase()}:\n${getMessageText(message)}`)
+            .join('\n\n');
+        const prompt = 'Summarize the following conversation between a user and an AI assistant. Keep the facts, decisions, and open questions needed to continue the conversation. Respond ONLY with the summary.';
+        return this.providerRegistry.getChatCompletion(model, [
+            { role: 'system', content: prompt },
+            // Leave room for the prompt and the summary itself
+            { role: 'user', content: truncateToTokens(transcript, Math.floor(tokenBudget / 2)) },
+        ], undefined, signal);
+    }
+
+    private addSummaryToSystemPrompt(messages: ChatMessage[], summary: string): ChatMessage[] {
+        const summaryText = `Summary of the earlier conversation (condensed to fit the context window):\n${summary}`;
+        const systemIndex = messages.findIndex(message => message.role === 'system');
+        if (systemIndex < 0) {
+            return [{ role: 'system', content: summaryText }, ...messages];
+        }
+        const result = [...messages];
+        result[systemIndex] = { role: 'system', content: `${getMessageText(messages[systemIndex])}\n\n${summaryText}` };
+        return result;
+    }
 
     /**
      * Attempts to remove the status message inserted by startChat.
-     * @param editor The editor instance.
-     * @param expectedStatusBase The exact status text that was inserted.
-     * @param startPos The expected start position of the status message.
-     * @param endPos The expected end position of the status message.
+     * @param target The note the status message was written to.
+     * @param status The status message, with its tracked range.
      * @param reason Optional reason for removal logging.
      * @returns True if the message was found and removed, false otherwise.
      */
-    private removeStatusMessageAtPos(editor: Editor, expectedStatusBase: string, startPos: EditorPosition, endPos: EditorPosition, reason?: string): boolean {
+    private removeStatusMessage(target: StreamTarget, status: StatusMessage, reason?: string): boolean {
         let removed = false;
+        const { start, end } = status;
 
         try {
             // Check range validity before getting text
-             if (editor.posToOffset(startPos) >= editor.posToOffset(endPos)) {
-                 log.warn("Invalid range for status message removal (start >= end).", { start: startPos, end: endPos, reason });
+             if (start.offset >= end.offset) {
+                 log.warn("Invalid range for status message removal (start >= end).", { start: start.offset, end: end.offset, reason });
                  return false;
              }
 
-            const currentText = editor.getRange(startPos, endPos).trim(); // Trim to handle potential extra newlines from insertTextAtPos
+            const currentText = target.getText().substring(start.offset, end.offset).trim(); // Trim to handle the newlines added around it
 
-            if (currentText === expectedStatusBase) {
-                editor.replaceRange('', startPos, endPos);
+            if (currentText === status.text) {
+                target.replace('', start.offset, end.offset);
                 removed = true;
-                log.debug(`Removed status message at [${startPos.line}, ${startPos.ch}]-[${endPos.line}, ${endPos.ch}]. Reason: ${reason || 'N/A'}`);
+                log.debug(`Removed status message at offsets ${start.offset}-${end.offset}. Reason: ${reason || 'N/A'}`);
             } else {
-                 log.warn(`Did not remove status message. Expected base "${expectedStatusBase}" but found "${currentText}"`, { start: startPos, end: endPos, reason: reason });
+                 log.warn(`Did not remove status message. Expected base "${status.text}" but found "${currentText}"`, { start: start.offset, end: end.offset, reason: reason });
             }
         } catch (e) {
-            log.error("Error removing status message range:", e, { start: startPos, end: endPos, reason: reason });
+            log.error("Error removing status message range:", e, { start: start.offset, end: end.offset, reason: reason });
         }
         return removed;
     }
 
     /**
-     * Inserts the separator with appropriate spacing.
-     * @returns The position right after the inserted block.
+     * Checks whether any chat stream is writing into the note, or about to.
      */
-    private insertSeparatorWithSpacing(
-        editor: Editor,
-        pos: EditorPosition,
-        separator: string
-    ): EditorPosition {
-        let currentOffset = editor.posToOffset(pos);
-        const docLength = editor.getValue().length;
-        const originalValue = editor.getValue();
+    isStreamActive(filePath: string): boolean {
+        return this.pendingNotes.has(filePath) || this.getNoteStreams(filePath).length > 0;
+    }
 
-        // Adjust position to be *after* any existing newlines at the target pos
-        while (currentOffset < docLength && originalValue[currentOffset] === '\n') {
-            currentOffset++;
-        }
-        const adjustedPos = editor.offsetToPos(currentOffset);
+    /**
+     * Lists the chat streams in flight across all notes, oldest first.
+     */
+    getActiveStreams(): ActiveStreamSummary[] {
+        return Array.from(this.activeStreams.entries())
+            .map(([streamId, info]) => ({
+                streamId,
+                notePath: info.notePath,
+                model: info.model,
+                startedAt: info.startedAt,
+                firstChunkAt: info.firstChunkAt,
+                outputTokens: info.outputTokens,
+            }));
+    }
 
-        // Determine prefix: Need two newlines unless at start or preceded by newline.
-        let prefix = '\n\n';
-        if (currentOffset === 0) {
-            prefix = '';
-        } else if (currentOffset > 0 && originalValue[currentOffset - 1] === '\n') {
-             prefix = '\n';
+    /**
+     * Estimates the prompt tokens of a note's conversation as it would be sent
+     * now, including the system prompt. Linked notes and images added while
+     * preparing the request are not counted.
+     */
+    async estimateConversationTokens(file: TFile, noteContent: string, settings: PluginSettings): Promise<number> {
+        let systemPrompt: string | null = null;
+        try {
+            systemPrompt = await this.noteContextService.resolveSystemPrompt(file, settings);
+        } catch (error) {
+            log.debug('System prompt left out of the token estimate:', error);
         }
+        return estimateMessagesTokens(this.parseNoteContent(noteContent, noteContent.length, systemPrompt));
+    }
 
-        const suffix = '\n\n'; // Always need two newlines after
-        const block = `${prefix}${separator}${suffix}`;
+    /**
+     * Calls the listener whenever a stream starts or ends.
+     * @returns A function that removes the listener.
+     */
+    onStreamsChanged(listener: () => void): () => void {
+        this.streamListeners.add(listener);
+        return () => this.streamListeners.delete(listener);
+    }
 
-        editor.replaceRange(block, adjustedPos, adjustedPos);
+    private getNoteStreams(filePath: string): [string, ActiveStreamInfo][] {
+        return Array.from(this.activeStreams.entries()).filter(([, info]) => info.notePath === filePath);
+    }
 
-        // Return the position *after* the entire inserted block
-        return editor.offsetToPos(currentOffset + block.length);
+    private trackStream(streamId: string, info: ActiveStreamInfo): void {
+        this.activeStreams.set(streamId, info);
+        this.notifyStreamsChanged();
     }
 
+    private untrackStream(streamId: string): void {
+        if (this.activeStreams.delete(streamId)) {
+            this.notifyStreamsChanged();
+        }
+    }
 
     /**
-     * Checks if a stream is currently active for the given file path.
+     * Counts streamed text towards the stream's progress (reasoning included,
+     * since the model spends tokens on it whether or not it is shown).
      */
-    isStreamActive(filePath: string): boolean {
-        return this.activeStreams.has(filePath);
+    private recordStreamOutput(streamId: string, text: string): void {
+        const info = this.activeStreams.get(streamId);
+        if (!info) {
+            return;
+        }
+        info.firstChunkAt = info.firstChunkAt ?? Date.now();
+        info.outputTokens += estimateTokens(text);
+    }
+
+    /**
+     * Records that a stream moved on to another model, e.g. a fallback.
+     */
+    private setStreamModel(streamId: string, model: string): void {
+        const info = this.activeStreams.get(streamId);
+        if (info) {
+            info.model = model;
+            this.notifyStreamsChanged();
+        }
+    }
+
+    private notifyStreamsChanged(): void {
+        this.streamListeners.forEach(listener => listener());
+    }
+
+    private createStreamId(): string {
+        return `${Date.now().toString(36)}-${this.nextStreamId++}`;
     }
 
     /**
-     * Cancels an active chat stream.
+     * Cancels active chat streams in the note. In a compare chat, only the
+     * stream whose section holds the cursor is cancelled; with the cursor
+     * elsewhere, every stream in the note is.
      */
     cancelStream(filePath: string, editor: Editor): void {
-        const streamInfo = this.activeStreams.get(filePath);
-        if (!streamInfo) {
+        const noteStreams = this.getNoteStreams(filePath);
+        if (noteStreams.length === 0) {
             log.debug(`No active chat stream found to cancel for note: ${filePath}`);
             return;
         }
 
+        const atCursor = this.findStreamAtCursor(noteStreams, editor);
         const reason = "Chat cancelled by user action.";
-        streamInfo.controller.abort(reason);
+        this.abortStreams(atCursor ? [atCursor] : noteStreams, reason);
+        new Notice(atCursor ? `Cancelled the response from ${atCursor[1].model}.` : reason);
+    }
 
-        // Attempt status message cleanup using stored positions
-        const removed = this.removeStatusMessageAtPos(editor, streamInfo.statusText, streamInfo.statusStartPos, streamInfo.statusEndPos, reason);
-        if (removed) {
-             editor.setCursor(streamInfo.statusStartPos); // Move cursor back if status was removed
+    /**
+     * Cancels every chat stream writing into the note, whether or not it is open.
+     */
+    cancelNoteStreams(filePath: string): void {
+        const noteStreams = this.getNoteStreams(filePath);
+        if (noteStreams.length === 0) {
+            return;
         }
+        this.abortStreams(noteStreams, "Chat cancelled by user action.");
+        new Notice(`Cancelled ${noteStreams.length === 1 ? 'the chat' : `${noteStreams.length} chats`} in ${filePath}.`);
+    }
+
+    /**
+     * Cancels a single chat stream, e.g. one picked from the status bar.
+     */
+    cancelStreamById(streamId: string): void {
+        const info = this.activeStreams.get(streamId);
+        if (!info) {
+            return;
+        }
+        this.abortStreams([[streamId, info]], "Chat cancelled by user action.");
+        new Notice(`Cancelled the response from ${info.model}.`);
+    }
 
-        this.activeStreams.delete(filePath); // Ensure removal
-        log.debug(`Stream cancelled and removed from active streams for: ${filePath}`);
-        new Notice(reason);
+    private abortStreams(streams: [string, ActiveStreamInfo][], reason: string): void {
+        for (const [streamId, streamInfo] of streams) {
+            streamInfo.controller.abort(reason);
+
+            // Attempt status message cleanup using its tracked range
+            if (streamInfo.status && this.removeStatusMessage(streamInfo.target, streamInfo.status, reason)) {
+                this.placeCursor(streamInfo.target, streamInfo.status.start.offset); // Move cursor back if status was removed
+            }
+
+            this.untrackStream(streamId); // Ensure removal
+            log.debug(`Stream ${streamId} cancelled and removed from active streams for: ${streamInfo.notePath}`);
+        }
+    }
+
+    /**
+     * Finds the compare-chat stream whose section (from its heading to its
+     * marker) contains the cursor.
+     */
+    private findStreamAtCursor(noteStreams: [string, ActiveStreamInfo][], editor: Editor): [string, ActiveStreamInfo] | undefined {
+        const content = editor.getValue();
+        const cursorOffset = editor.posToOffset(editor.getCursor());
+        return noteStreams.find(([, info]) => {
+            if (!info.section) {
+                return false;
+            }
+            const markerOffset = content.indexOf(info.section.marker);
+            const headingOffset = content.lastIndexOf(info.section.heading, markerOffset);
+            return markerOffset !== -1 && headingOffset !== -1
+                && cursorOffset >= headingOffset && cursorOffset <= markerOffset + info.section.marker.length;
+        });
     }
 }
@@ -0,0 +1,88 @@
+import { App, Menu, SuggestModal } from 'obsidian';
+import { ActiveStreamSummary, ChatService } from './ChatService';
+
+/**
+ * Status bar item listing the chats that are still streaming, in any note.
+ * Hidden while nothing streams; clicking it offers to cancel a chat.
+ */
+export class ChatStatusBar {
+	private el: HTMLElement;
+	private chatService: ChatService;
+
+	constructor(el: HTMLElement, chatService: ChatService) {
+		this.el = el;
+		this.chatService = chatService;
+		this.el.addClass('snc-status-bar', 'mod-clickable');
+		this.el.addEventListener('click', (evt) => this.showMenu(evt));
+		this.update();
+	}
+
+	/**
+	 * Redraws the item from the current streams.
+	 */
+	update(): void {
+		const streams = this.chatService.getActiveStreams();
+		this.el.toggle(streams.length > 0);
+		this.el.setText(streams.length === 1 ? '1 chat streaming' : `${streams.length} chats streaming`);
+		this.el.setAttribute('aria-label', streams.map(formatStream).join('\n'));
+		this.el.setAttribute('data-tooltip-position', 'top');
+	}
+
+	private showMenu(evt: MouseEvent): void {
+		const streams = this.chatService.getActiveStreams();
+		if (streams.length === 0) {
+			return;
+		}
+		const menu = new Menu();
+		for (const stream of streams) {
+			menu.addItem(item => item
+				.setTitle(`Cancel: ${formatStream(stream)}`)
+				.setIcon('square')
+				.onClick(() => this.chatService.cancelStreamById(stream.streamId)));
+		}
+		if (streams.length > 1) {
+			menu.addSeparator();
+			menu.addItem(item => item
+				.setTitle('Cancel all')
+				.setIcon('x')
+				.onClick(() => streams.forEach(stream => this.chatService.cancelStreamById(stream.streamId))));
+		}
+		menu.showAtMouseEvent(evt);
+	}
+}
+
+/**
+ * Picks a note with streaming chats and cancels all of them.
+ */
+export class CancelStreamModal extends SuggestModal<string> {
+	private chatService: ChatService;
+
+	constructor(app: App, chatService: ChatService) {
+		super(app);
+		this.chatService = chatService;
+		this.setPlaceholder('Choose a note to stop its streaming chats');
+		this.emptyStateText = 'No chats are streaming.';
+	}
+
+	getSuggestions(query: string): string[] {
+		const notePaths = Array.from(new Set(this.chatService.getActiveStreams().map(stream => stream.notePath)));
+		const lowerQuery = query.toLowerCase();
+		return notePaths.filter(path => path.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(notePath: string, el: HTMLElement): void {
+		const models = this.chatService.getActiveStreams()
+			.filter(stream => stream.notePath === notePath)
+			.map(stream => stream.model);
+		el.createDiv({ text: notePath });
+		el.createEl('small', { text: models.join(', '), cls: 'snc-suggestion-detail' });
+	}
+
+	onChooseSuggestion(notePath: string): void {
+		this.chatService.cancelNoteStreams(notePath);
+	}
+}
+
+function formatStream(stream: ActiveStreamSummary): string {
+	return `${stream.notePath} — ${stream.model}`;
+}
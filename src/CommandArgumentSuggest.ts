@@ -0,0 +1,88 @@
+import { Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, TFile } from 'obsidian';
+import type SimpleNoteChatPlugin from './main';
+import { CommandArgumentKind } from './utils/commandPhrase';
+import { log } from './utils/logger';
+
+interface ArgumentSuggestion {
+	value: string;
+	detail: string | null;
+}
+
+/**
+ * Autocompletes the argument typed after a command phrase: model IDs after
+ * `cc`, `cm` and `rr`, folders after `gg` (and after custom phrases with the
+ * same kind of argument).
+ */
+export class CommandArgumentSuggest extends EditorSuggest<ArgumentSuggestion> {
+	private plugin: SimpleNoteChatPlugin;
+	private argumentKind: CommandArgumentKind | null = null;
+
+	constructor(plugin: SimpleNoteChatPlugin) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.limit = 50;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		if (!file) {
+			return null;
+		}
+		const textBeforeCursor = editor.getLine(cursor.line).substring(0, cursor.ch);
+		const command = this.plugin.findCommandPhrase(textBeforeCursor);
+		// Only once a space follows the phrase, so typing the phrase itself doesn't open the list
+		if (!command || (command.command.argument !== 'model' && command.command.argument !== 'folder')
+			|| command.argsStart === 0 || !/\s/.test(textBeforeCursor[command.argsStart - 1])) {
+			return null;
+		}
+		this.argumentKind = command.command.argument;
+		return {
+			start: { line: cursor.line, ch: command.argsStart },
+			end: cursor,
+			query: textBeforeCursor.substring(command.argsStart),
+		};
+	}
+
+	async getSuggestions(context: EditorSuggestContext): Promise<ArgumentSuggestion[]> {
+		const query = context.query.toLowerCase();
+		const suggestions = this.argumentKind === 'folder' ? this.getFolders() : await this.getModels();
+		return suggestions.filter(suggestion =>
+			suggestion.value.toLowerCase().includes(query) || !!suggestion.detail?.toLowerCase().includes(query));
+	}
+
+	renderSuggestion(suggestion: ArgumentSuggestion, el: HTMLElement): void {
+		el.createDiv({ text: suggestion.value });
+		if (suggestion.detail) {
+			el.createEl('small', { text: suggestion.detail, cls: 'snc-suggestion-detail' });
+		}
+	}
+
+	selectSuggestion(suggestion: ArgumentSuggestion): void {
+		if (!this.context) {
+			return;
+		}
+		// The phrase still needs Enter to run, so the argument can be checked first
+		const { editor, start, end } = this.context;
+		editor.replaceRange(suggestion.value, start, end);
+		editor.setCursor({ line: start.line, ch: start.ch + suggestion.value.length });
+		this.close();
+	}
+
+	private async getModels(): Promise<ArgumentSuggestion[]> {
+		if (!this.plugin.providerRegistry.hasConfiguredProvider()) {
+			return [];
+		}
+		try {
+			const models = await this.plugin.providerRegistry.fetchModels();
+			return models.map(model => ({ value: model.id, detail: model.name && model.name !== model.id ? model.name : null }));
+		} catch (error) {
+			log.warn('CommandArgumentSuggest: Could not load models:', error);
+			return [];
+		}
+	}
+
+	private getFolders(): ArgumentSuggestion[] {
+		return this.plugin.getFolderPaths()
+			.map(path => ({ value: path, detail: null }))
+			.sort((a, b) => a.value.localeCompare(b.value));
+	}
+}
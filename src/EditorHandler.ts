@@ -1,8 +1,11 @@
 import { App, Editor, MarkdownView, TFile, EditorPosition, Notice } from 'obsidian';
 import SimpleNoteChat from './main'; // Assuming main exports the class as default
-import { PluginSettings } from './types';
+import { CustomCommandPhrase, PluginSettings } from './types';
+import { StartChatOptions } from './ChatService';
 import { log } from './utils/logger';
 import { ModelSelectorModal } from './ModelSelectorModal'; // Added import
+import { PromptTemplate } from './TemplateService';
+import { FRONTMATTER_MODEL_KEY } from './constants';
 
 export class EditorHandler {
 	private app: App;
@@ -44,12 +47,14 @@ export class EditorHandler {
 	/**
 		* Handles chat command activation.
 		* Replaces command line with status message and initiates chat.
+	 * @param options Optional overrides for this chat, e.g. from a custom command phrase.
 	 */
 	public triggerChatCommand(
 		editor: Editor,
 		markdownView: MarkdownView,
 		settings: PluginSettings,
-		commandLineIndex: number
+		commandLineIndex: number,
+		options: StartChatOptions = {}
 	): void {
 		const file = markdownView.file;
 		if (!file) {
@@ -65,7 +70,8 @@ export class EditorHandler {
 			editor,
 			file,
 			settings,
-			commandLineStartPos // Position where status message was inserted
+			commandLineStartPos, // Position where status message was inserted
+			options
 		).catch((error: Error) => { // Add type to error
 			log.error("Error starting chat from command phrase:", error);
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -75,15 +81,69 @@ export class EditorHandler {
 		});
 	}
 
+	/**
+	 * Handles regenerate command activation.
+	 * Removes command line, then replaces the last response with a new one.
+	 * @param model Optional model to regenerate with, given after the phrase.
+	 */
+	public triggerRegenerateCommand(
+		editor: Editor,
+		markdownView: MarkdownView,
+		settings: PluginSettings,
+		commandLineIndex: number,
+		model: string = ''
+	): void {
+		const file = markdownView.file;
+		if (!file) {
+			log.error(`Cannot execute regenerate command: markdownView.file is null.`);
+			new Notice(`Failed to execute regenerate command: No active file.`);
+			return;
+		}
+
+		this.removeCommandLine(editor, commandLineIndex);
+
+		this.plugin.chatService.regenerateLastResponse(editor, file, settings, model || undefined)
+			.catch((error: Error) => {
+				log.error("Error regenerating response from command phrase:", error);
+			});
+	}
+
+	/**
+	 * Handles continue command activation.
+	 * Removes command line, then extends the last (cut off) response.
+	 */
+	public triggerContinueCommand(
+		editor: Editor,
+		markdownView: MarkdownView,
+		settings: PluginSettings,
+		commandLineIndex: number
+	): void {
+		const file = markdownView.file;
+		if (!file) {
+			log.error(`Cannot execute continue command: markdownView.file is null.`);
+			new Notice(`Failed to execute continue command: No active file.`);
+			return;
+		}
+
+		this.removeCommandLine(editor, commandLineIndex);
+
+		this.plugin.chatService.continueLastResponse(editor, file, settings)
+			.catch((error: Error) => {
+				log.error("Error continuing response from command phrase:", error);
+			});
+	}
+
 	/**
 	 * Handles archive command activation.
 	 * Removes command line and moves file to archive location.
+	 * @param archiveFolder Folder to archive to; defaults to the archive folder setting.
 	 */
 	public triggerArchiveCommand(
 		editor: Editor,
 		markdownView: MarkdownView,
 		settings: PluginSettings,
-		commandLineIndex: number
+		commandLineIndex: number,
+		archiveFolder: string = settings.archiveFolderName
 	): void {
 		const file = markdownView.file;
 		if (!file) {
@@ -100,10 +160,10 @@ export class EditorHandler {
 		// Show status *before* calling the potentially slow archive function if using model
 		if (settings.enableArchiveRenameLlm) {
 			const titleModel = settings.llmRenameModel || settings.defaultModel;
-			if (titleModel && settings.apiKey) {
+			if (titleModel) {
 				new Notice(`Calling ${titleModel} to generate title...`, 5000); // Temporary notice
 			} else {
-				log.warn("Archive rename with LLM enabled, but API key or model not set. Skipping notice.");
+				log.warn("Archive rename with LLM enabled, but no model set. Skipping notice.");
 			}
 		}
 
@@ -111,7 +171,7 @@ export class EditorHandler {
 			try {
 				const newPath = await this.plugin.fileSystemService.moveFileToArchive(
 					file,
-					settings.archiveFolderName,
+					archiveFolder,
 					settings,
 					editor // Pass the editor instance
 				);
@@ -119,7 +179,7 @@ export class EditorHandler {
 				const newName = newPath.split('/').pop() || file.basename; // Fallback to original basename
 
 				// Show persistent notice
-				new Notice(`Renamed to ${newName}\nMoved to ${settings.archiveFolderName}`);
+				new Notice(`Renamed to ${newName}\nMoved to ${archiveFolder}`);
 			} catch (error) {
 				log.error("Error during note archive:", error);
 				const message = error instanceof Error ? error.message : String(error);
@@ -131,12 +191,14 @@ export class EditorHandler {
 	/**
 	 * Handles new chat command activation.
 	 * Removes command line and creates a new chat note.
+	 * @param title Optional title for the note, given after the phrase.
 	 */
 	public triggerNewChatCommand(
 		editor: Editor,
 		markdownView: MarkdownView,
 		settings: PluginSettings,
-		commandLineIndex: number
+		commandLineIndex: number,
+		title: string = ''
 	): void {
 		this.removeCommandLine(editor, commandLineIndex);
 
@@ -144,35 +206,151 @@ export class EditorHandler {
 		this._setCursorBeforeCommand(editor, commandLineIndex);
 
 		// Create the note *after* modifying the editor
-		this.plugin.createNewChatNote();
+		this.plugin.createNewChatNote(title || undefined);
 	}
 
 	/**
 	 * Handles model selection command activation.
 	 * Removes command line and opens the model selector modal.
+	 * @param model Optional model given after the phrase; sets the note's model directly instead.
 	 */
 	public triggerModelCommand(
 		editor: Editor,
 		markdownView: MarkdownView,
 		settings: PluginSettings,
-		commandLineIndex: number
+		commandLineIndex: number,
+		model: string = ''
 	): void {
 		this.removeCommandLine(editor, commandLineIndex);
 
 		// Set cursor position *before* opening the modal
 		this._setCursorBeforeCommand(editor, commandLineIndex);
 
-		// Open the modal
-		new ModelSelectorModal(this.plugin).open();
+		// A model given after the phrase becomes the note's model, without the modal
+		const file = markdownView.file;
+		if (model && file) {
+			this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				frontmatter[FRONTMATTER_MODEL_KEY] = model;
+			}).then(() => {
+				new Notice(`Model for "${file.basename}" set to "${model}".`);
+			}).catch(error => {
+				log.error('Error updating note model frontmatter:', error);
+				const message = error instanceof Error ? error.message : String(error);
+				new Notice(`Failed to set the note's model: ${message}`);
+			});
+			return;
+		}
+
+		// Open the modal for this note, so the model can be set per-note or as default
+		new ModelSelectorModal(this.plugin, markdownView.file).open();
 		log.debug(`Executed model command ('${settings.modelCommandPhrase}') on line ${commandLineIndex}. Opening modal.`);
 	}
 
 	/**
-		* Opens the model selector modal directly.
+	 * Handles a custom command phrase by running its action.
+	 * @param args Text after the phrase: a model for chat phrases, a folder for archive phrases.
+	 */
+	public triggerCustomCommand(
+		editor: Editor,
+		markdownView: MarkdownView,
+		settings: PluginSettings,
+		commandLineIndex: number,
+		custom: CustomCommandPhrase,
+		args: string = ''
+	): void {
+		const options: StartChatOptions = {
+			model: (custom.action === 'chat' && args) || custom.model || undefined,
+			systemPrompt: custom.systemPrompt || undefined,
+		};
+		switch (custom.action) {
+			case 'chat':
+				this.triggerChatCommand(editor, markdownView, settings, commandLineIndex, options);
+				break;
+			case 'template': {
+				const template = this.plugin.templateService.getTemplates(settings)
+					.find(candidate => candidate.name === custom.template);
+				if (!template) {
+					log.warn(`Custom phrase "${custom.phrase}": template "${custom.template}" not found.`);
+					new Notice(`The template "${custom.template}" of the phrase "${custom.phrase}" was not found in the templates folder.`);
+					return;
+				}
+				this.triggerTemplateCommand(editor, markdownView, settings, commandLineIndex, template, options);
+				break;
+			}
+			case 'archive':
+				this.triggerArchiveCommand(editor, markdownView, settings, commandLineIndex, args || custom.folder || settings.archiveFolderName);
+				break;
+		}
+	}
+
+	/**
+	 * Handles a prompt template's command phrase.
+	 * Replaces the command line with the filled-in template, then starts the chat below it.
+	 */
+	public triggerTemplateCommand(
+		editor: Editor,
+		markdownView: MarkdownView,
+		settings: PluginSettings,
+		commandLineIndex: number,
+		template: PromptTemplate,
+		options: StartChatOptions = {}
+	): void {
+		const file = markdownView.file;
+		if (!file) {
+			log.error(`Cannot execute template command: markdownView.file is null.`);
+			new Notice(`Failed to execute template command: No active file.`);
+			return;
+		}
+
+		const commandLineStartPos = this.removeCommandLine(editor, commandLineIndex);
+		this.insertTemplateAndChat(editor, file, settings, template, editor.posToOffset(commandLineStartPos), false, options);
+	}
+
+	/**
+	 * Uses a prompt template from a command: the filled-in template is added
+	 * as a new paragraph after the cursor's line (or the selection's last line),
+	 * then the chat starts below it.
+	 */
+	public applyTemplate(editor: Editor, file: TFile, settings: PluginSettings, template: PromptTemplate): void {
+		const to = editor.getCursor('to');
+		const lineEnd = editor.posToOffset({ line: to.line, ch: editor.getLine(to.line).length });
+		this.insertTemplateAndChat(editor, file, settings, template, lineEnd, true);
+	}
+
+	private async insertTemplateAndChat(
+		editor: Editor,
+		file: TFile,
+		settings: PluginSettings,
+		template: PromptTemplate,
+		offset: number,
+		newParagraph: boolean,
+		options: StartChatOptions = {}
+	): Promise<void> {
+		try {
+			const prompt = await this.plugin.templateService.render(template, editor);
+			if (prompt === null) {
+				log.debug(`Template "${template.name}" cancelled while asking for its variables.`);
+				return;
+			}
+			if (!prompt) {
+				new Notice(`The template "${template.name}" is empty.`);
+				return;
+			}
+			const text = `${newParagraph && offset > 0 ? '\n\n' : ''}${prompt}\n`;
+			editor.replaceRange(text, editor.offsetToPos(offset));
+			await this.plugin.chatService.startChat(editor, file, settings, editor.offsetToPos(offset + text.length), options);
+		} catch (error) {
+			log.error(`Error using template "${template.name}":`, error);
+			new Notice(`Failed to use the template "${template.name}": ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	/**
+		* Opens the model selector modal directly, for the active note if there is one.
 		* Intended for use by commands/hotkeys.
 		*/
 	public openModelSelectorModal(): void {
-		new ModelSelectorModal(this.plugin).open();
+		new ModelSelectorModal(this.plugin, this.app.workspace.getActiveFile()).open();
 		log.debug("Opened model selector modal via command/hotkey.");
 	}
 }
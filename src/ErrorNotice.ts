@@ -0,0 +1,51 @@
+import { App, Notice, Plugin } from 'obsidian';
+import { ErrorFix, getErrorAdvice } from './errors';
+import { log } from './utils/logger';
+
+// How long error notices stay up; long enough to reach the fix button
+const ERROR_NOTICE_DURATION_MS = 10000;
+
+// Parts of the app API used to open settings and run commands; present at runtime but not in obsidian.d.ts
+interface AppInternals {
+	setting?: { open(): void; openTabById(id: string): void };
+	commands?: { executeCommandById(id: string): boolean };
+}
+
+const FIX_LABELS: Record<ErrorFix, string> = {
+	'open-settings': 'Open settings',
+	'choose-model': 'Choose model',
+};
+
+/**
+ * Shows an error as a notice that says what went wrong and what to do about
+ * it (see getErrorAdvice), with a button for the suggested fix.
+ * @param prefix Says what failed, e.g. the model that was asked.
+ */
+export function showErrorNotice(plugin: Plugin, error: unknown, prefix?: string): void {
+	const advice = getErrorAdvice(error);
+	const fragment = createFragment(el => {
+		el.createDiv({ text: prefix ? `${prefix}: ${advice.message}` : advice.message });
+		const detail = error instanceof Error ? error.message : '';
+		if (detail && !advice.message.includes(detail)) {
+			el.createDiv({ text: detail, cls: 'snc-error-detail' });
+		}
+		if (advice.fix) {
+			const fix = advice.fix;
+			const button = el.createEl('button', { text: FIX_LABELS[fix], cls: 'snc-error-fix' });
+			button.addEventListener('click', () => applyFix(plugin, fix));
+		}
+	});
+	new Notice(fragment, ERROR_NOTICE_DURATION_MS);
+}
+
+function applyFix(plugin: Plugin, fix: ErrorFix): void {
+	const app = plugin.app as App & AppInternals;
+	if (fix === 'open-settings' && app.setting) {
+		app.setting.open();
+		app.setting.openTabById(plugin.manifest.id);
+	} else if (fix === 'choose-model' && app.commands) {
+		app.commands.executeCommandById(`${plugin.manifest.id}:change-chat-model`);
+	} else {
+		log.warn(`Could not apply the suggested fix "${fix}".`);
+	}
+}
@@ -1,17 +1,19 @@
 import { App, TFile, normalizePath, moment, Notice, Editor } from 'obsidian';
 import { PluginSettings, ChatMessage } from './types';
-import { OpenRouterService, ChatCompletionError, ChatCompletionOptions } from './OpenRouterService';
+import { ChatCompletionOptions } from './ChatProvider';
+import { ChatCompletionError, getErrorAdvice } from './errors';
+import { ProviderRegistry } from './ProviderRegistry';
 import { log } from './utils/logger';
 import { formatLlmTitle } from './utils/llmTitle';
 import { CHAT_BOUNDARY_MARKER, createChatBoundaryRegex } from './constants';
 
 export class FileSystemService {
     private app: App;
-    private openRouterService: OpenRouterService;
+    private providerRegistry: ProviderRegistry;
 
-    constructor(app: App, openRouterService: OpenRouterService) {
+    constructor(app: App, providerRegistry: ProviderRegistry) {
         this.app = app;
-        this.openRouterService = openRouterService;
+        this.providerRegistry = providerRegistry;
     }
 
     /**
@@ -119,9 +121,9 @@ export class FileSystemService {
     private async generateLlmTitle(content: string, settings: PluginSettings): Promise<string | null> {
         const titleModel = settings.llmRenameModel || settings.defaultModel;
 
-        if (!titleModel || !settings.apiKey) {
-            new Notice("LLM title generation skipped: API key or title/default model not set.");
-            log.warn("LLM title generation skipped: API key or title/default model not set.");
+        if (!titleModel) {
+            new Notice("LLM title generation skipped: title/default model not set.");
+            log.warn("LLM title generation skipped: title/default model not set.");
             return null;
         }
         if (!content.trim()) {
@@ -139,8 +141,7 @@ export class FileSystemService {
         log.debug(`FileSystemService: Requesting LLM title with model ${titleModel}`, completionOptions);
         let llmTitle: string;
         try {
-            llmTitle = await this.openRouterService.getChatCompletion(
-                settings.apiKey,
+            llmTitle = await this.providerRegistry.getChatCompletion(
                 titleModel,
                 messages,
                 completionOptions
@@ -153,8 +154,7 @@ export class FileSystemService {
                 && completionOptions.reasoning?.effort === 'none') {
                 log.warn("FileSystemService: Request with reasoning effort 'none' was rejected; retrying without the reasoning field.", error);
                 try {
-                    llmTitle = await this.openRouterService.getChatCompletion(
-                        settings.apiKey,
+                    llmTitle = await this.providerRegistry.getChatCompletion(
                         titleModel,
                         messages,
                         { maxTokens: completionOptions.maxTokens }
@@ -183,8 +183,7 @@ export class FileSystemService {
 
     private noticeTitleFailure(error: unknown): null {
         log.error("FileSystemService: LLM title generation failed:", error);
-        const message = error instanceof Error ? error.message : String(error);
-        new Notice(`LLM title generation failed: ${message}\nArchiving with current name.`);
+        new Notice(`LLM title generation failed. ${getErrorAdvice(error).message}\nArchiving with current name.`);
         return null;
     }
 
@@ -205,7 +204,7 @@ export class FileSystemService {
         if (effort === 'none') {
             // Models with mandatory reasoning reject effort 'none'; omit the field
             // so they use their default behavior instead of failing the archive.
-            if (this.openRouterService.getModelReasoningInfo(model)?.mandatory) {
+            if (this.providerRegistry.getModelReasoningInfo(model)?.mandatory) {
                 log.debug(`FileSystemService: Model ${model} has mandatory reasoning; omitting reasoning field.`);
                 return { maxTokens };
             }
@@ -1,69 +1,115 @@
-import { App, Modal, Setting, Notice } from 'obsidian';
+import { Modal, Setting, Notice, TFile } from 'obsidian';
 import SimpleNoteChatPlugin from './main';
-import { OpenRouterService, ModelSortOption } from './OpenRouterService';
+import { ProviderRegistry, ModelSortOption, FormattedModelInfo } from './ProviderRegistry';
+import { FRONTMATTER_MODEL_KEY } from './constants';
+import { getFrontmatterString } from './utils/frontmatter';
+import { getErrorAdvice } from './errors';
 import { log } from './utils/logger';
 
 export class ModelSelectorModal extends Modal {
 	plugin: SimpleNoteChatPlugin;
-	ors: OpenRouterService;
+	providers: ProviderRegistry;
+	private file: TFile | null;
+	private onChoose: ((modelId: string) => void) | null;
+	private formatted: FormattedModelInfo[] = [];
 
-	constructor(plugin: SimpleNoteChatPlugin) {
+	/**
+	 * @param plugin The plugin instance.
+	 * @param file The chat note to offer a per-note model for; null when no note is active.
+	 * @param onChoose If given, the modal only picks a model for a one-off action
+	 *                 (e.g. regenerating a response) and passes it here instead of saving it.
+	 */
+	constructor(plugin: SimpleNoteChatPlugin, file: TFile | null = null, onChoose: ((modelId: string) => void) | null = null) {
 		super(plugin.app);
 		this.plugin = plugin;
-		this.ors = plugin.openRouterService;
+		this.providers = plugin.providerRegistry;
+		this.file = file;
+		this.onChoose = onChoose;
 	}
 
 	async onOpen() {
 		const { contentEl } = this;
 		contentEl.empty();
-		contentEl.createEl('h2', { text: 'Select default chat model' });
+		contentEl.createEl('h2', { text: 'Select chat model' });
 		contentEl.createEl('p', {
-			text: 'This changes the default model used for all chat notes. Currently, setting models per-note is not supported (but maybe someday!). You can change this default model again at any time using this dialog or the settings.'
+			text: this.onChoose
+				? 'Choose the model to use for this response. The note\'s model and the default model stay unchanged.'
+				: `Set the model for this note only (saved in the note's "${FRONTMATTER_MODEL_KEY}" frontmatter), or change the default model used by all other chat notes. You can change either again at any time using this dialog or the settings.`
 		});
 
 		const notice = new Notice('Loading models…', 0); // Indefinite notice
 
 		try {
-			const apiKey = this.plugin.settings.apiKey;
-			if (!apiKey) {
-				contentEl.createEl('p', { text: 'Error: OpenRouter API key is not set in plugin settings.' });
+			if (!this.providers.hasConfiguredProvider()) {
+				contentEl.createEl('p', { text: 'Error: No model provider is configured. Add an OpenRouter API key or a custom provider in plugin settings.' });
 				notice.hide();
 				return;
 			}
 
-			// Use cached models if available
-			let models = await this.ors.fetchModels(apiKey);
+			// Use cached models if available; merges every configured provider
+			let models = await this.providers.fetchModels();
 			if (models.length === 0) {
-				contentEl.createEl('p', { text: 'No models loaded. Check your API key or network connection.' });
+				contentEl.createEl('p', { text: 'No models loaded. Check your API keys, provider settings, or network connection.' });
 				notice.hide();
 				return;
 			}
 
 			// Sort models based on the setting
-			models = this.ors.sortModels(models, this.plugin.settings.modelSortOrder as ModelSortOption);
-			const formatted = this.ors.getFormattedModels(models);
+			models = this.providers.sortModels(models, this.plugin.settings.modelSortOrder as ModelSortOption);
+			this.formatted = this.providers.getFormattedModels(models);
+
+			const noteModel = this.file
+				? getFrontmatterString(this.app, this.file, FRONTMATTER_MODEL_KEY)
+				: undefined;
+			let selectedModel = noteModel ?? this.plugin.settings.defaultModel;
 
 			new Setting(contentEl)
-				.setName('Default model')
-				.setDesc('Choose the LLM to use for chat completions.')
+				.setName('Model')
+				.setDesc(noteModel
+					? `This note uses its own model. Default model: ${this.plugin.settings.defaultModel || 'not set'}.`
+					: 'Choose the LLM to use for chat completions.')
 				.addDropdown(dd => {
-					formatted.forEach(m => dd.addOption(m.id, m.displayName));
-					dd.setValue(this.plugin.settings.defaultModel);
-					dd.onChange(async (val) => {
-						this.plugin.settings.defaultModel = val;
-						await this.plugin.saveSettings();
-						// Find the display name for the notice
-						const selectedModelInfo = formatted.find(m => m.id === val);
-						const modelDisplayName = selectedModelInfo ? selectedModelInfo.displayName.split('|')[0].trim() : val; // Extract name before price
-						new Notice(`Default chat model set to "${modelDisplayName}".`);
-						this.close();
-					});
+					this.formatted.forEach(m => dd.addOption(m.id, m.displayName));
+					// Keep a note's override selectable even if it isn't in the fetched list
+					if (selectedModel && !this.formatted.some(m => m.id === selectedModel)) {
+						dd.addOption(selectedModel, selectedModel);
+					}
+					dd.setValue(selectedModel);
+					dd.onChange(val => selectedModel = val);
 				});
 
+			const onChoose = this.onChoose;
+			if (onChoose) {
+				new Setting(contentEl)
+					.addButton(button => button
+						.setButtonText('Use this model')
+						.setCta()
+						.onClick(() => {
+							this.close();
+							onChoose(selectedModel);
+						}));
+				return;
+			}
+
+			const actions = new Setting(contentEl)
+				.addButton(button => button
+					.setButtonText('Set for this note')
+					.setCta()
+					.setDisabled(!this.file)
+					.onClick(() => this.setNoteModel(selectedModel)))
+				.addButton(button => button
+					.setButtonText('Set as default')
+					.onClick(() => this.setDefaultModel(selectedModel)));
+
+			if (noteModel) {
+				actions.addButton(button => button
+					.setButtonText('Use default for this note')
+					.onClick(() => this.setNoteModel(null)));
+			}
+
 		} catch (error) {
 			log.error('Error loading models in modal:', error);
-			const message = error instanceof Error ? error.message : String(error);
-			contentEl.createEl('p', { text: `Failed to load models: ${message}` });
+			contentEl.createEl('p', { text: `Failed to load models. ${getErrorAdvice(error).message}` });
 		} finally {
 			notice.hide();
 		}
@@ -72,4 +118,44 @@ export class ModelSelectorModal extends Modal {
 	onClose() {
 		this.contentEl.empty();
 	}
+
+	/** Extracts the model name from its display string (the part before the price). */
+	private getModelDisplayName(modelId: string): string {
+		const selectedModelInfo = this.formatted.find(m => m.id === modelId);
+		return selectedModelInfo ? selectedModelInfo.displayName.split('|')[0].trim() : modelId;
+	}
+
+	private async setDefaultModel(modelId: string): Promise<void> {
+		this.plugin.settings.defaultModel = modelId;
+		await this.plugin.saveSettings();
+		new Notice(`Default chat model set to "${this.getModelDisplayName(modelId)}".`);
+		this.close();
+	}
+
+	/**
+	 * Writes (or with null, removes) the note's model override in its frontmatter.
+	 */
+	private async setNoteModel(modelId: string | null): Promise<void> {
+		const file = this.file;
+		if (!file) {
+			return;
+		}
+		try {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				if (modelId) {
+					frontmatter[FRONTMATTER_MODEL_KEY] = modelId;
+				} else {
+					delete frontmatter[FRONTMATTER_MODEL_KEY];
+				}
+			});
+			new Notice(modelId
+				? `Model for "${file.basename}" set to "${this.getModelDisplayName(modelId)}".`
+				: `"${file.basename}" now uses the default chat model.`);
+		} catch (error) {
+			log.error('Error updating note model frontmatter:', error);
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Failed to set the note's model: ${message}`);
+		}
+		this.close();
+	}
 }
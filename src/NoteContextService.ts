@@ -0,0 +1,265 @@
+import { App, TFile, arrayBufferToBase64, normalizePath, resolveSubpath } from 'obsidian';
+import { PluginSettings, ChatMessage, ChatContentPart } from './types';
+import { FRONTMATTER_SYSTEM_KEY } from './constants';
+import { log } from './utils/logger';
+import { stripFrontmatter } from './utils/frontmatter';
+import { parseWikiLink, findWikiLinks } from './utils/links';
+
+// Image formats accepted by OpenRouter's image input, keyed by file extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+/**
+ * A vault note referenced from the conversation, optionally narrowed to a heading or block.
+ */
+interface LinkedNote {
+    file: TFile;
+    subpath?: string;
+}
+
+/**
+ * Gathers the context that accompanies a chat note's conversation, such as
+ * the system prompt and linked notes, from the note's frontmatter and the vault.
+ */
+export class NoteContextService {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Resolves the system prompt for a chat note.
+     *
+     * The note's `system` frontmatter overrides the default from settings. Either
+     * can be literal prompt text, a wiki link to a vault note (`[[Prompts/Code reviewer]]`),
+     * or the name of a note in the prompt library folder; linked notes contribute
+     * their body (without frontmatter).
+     * @param file The chat note.
+     * @param settings The plugin settings holding the default prompt and library folder.
+     * @param override A prompt to use instead of both, e.g. from a custom command phrase.
+     * @returns The system prompt text, or null if none applies.
+     * @throws Error if the prompt links to a note that doesn't exist.
+     */
+    async resolveSystemPrompt(file: TFile, settings: PluginSettings, override?: string): Promise<string | null> {
+        const rawPrompt = (override || (this.getSystemFrontmatterValue(file) ?? settings.systemPrompt)).trim();
+        if (!rawPrompt) {
+            return null;
+        }
+
+        const link = parseWikiLink(rawPrompt);
+        if (link) {
+            const linkedFile = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, file.path);
+            if (!linkedFile) {
+                throw new Error(`System prompt note "${link.linkpath}" was not found`);
+            }
+            log.debug(`NoteContextService: Using system prompt from linked note ${linkedFile.path}`);
+            return this.readPromptNote(linkedFile);
+        }
+
+        const libraryFile = this.findInPromptLibrary(rawPrompt, settings);
+        if (libraryFile) {
+            log.debug(`NoteContextService: Using system prompt from prompt library note ${libraryFile.path}`);
+            return this.readPromptNote(libraryFile);
+        }
+
+        return rawPrompt;
+    }
+
+    /**
+     * Reads the `system` frontmatter value. An unquoted `system: [[Note]]` is
+     * parsed by YAML as a nested list, so that form is turned back into a link.
+     */
+    private getSystemFrontmatterValue(file: TFile): string | undefined {
+        const value: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_SYSTEM_KEY];
+        if (typeof value === 'string') {
+            return value;
+        }
+        let nested: unknown = value;
+        while (Array.isArray(nested)) {
+            nested = nested[0];
+        }
+        if (nested !== value && typeof nested === 'string') {
+            return `[[${nested}]]`;
+        }
+        return undefined;
+    }
+
+    private findInPromptLibrary(name: string, settings: PluginSettings): TFile | null {
+        const folder = settings.systemPromptFolder.trim();
+        // A multi-line value is prompt text, never a note name
+        if (!folder || name.includes('\n')) {
+            return null;
+        }
+        const fileName = name.endsWith('.md') ? name : `${name}.md`;
+        return this.app.vault.getFileByPath(normalizePath(`${folder}/${fileName}`));
+    }
+
+    private async readPromptNote(promptFile: TFile): Promise<string | null> {
+        const content = stripFrontmatter(await this.app.vault.cachedRead(promptFile)).trim();
+        if (!content) {
+            log.warn(`NoteContextService: System prompt note ${promptFile.path} is empty.`);
+            return null;
+        }
+        return content;
+    }
+
+    /**
+     * Inlines the notes that user messages link to or embed, so the model sees
+     * their content rather than the bare link text. Each linked note is appended
+     * to the message that references it, wrapped in <linked-note> delimiters.
+     *
+     * Links inside inlined notes are followed breadth-first up to
+     * `linkExpansionDepth` levels, so directly referenced notes are inlined
+     * before nested ones. Each note is inlined once per conversation, and
+     * inlining stops once `linkExpansionMaxChars` characters have been added.
+     * @param messages The parsed conversation.
+     * @param file The chat note, used to resolve relative links.
+     * @param settings The plugin settings holding the depth and size budget.
+     * @returns The conversation with linked notes inlined; the input is not modified.
+     */
+    async expandLinks(messages: ChatMessage[], file: TFile, settings: PluginSettings): Promise<ChatMessage[]> {
+        const seenPaths = new Set<string>([file.path]);
+        let remainingChars = settings.linkExpansionMaxChars;
+        const expanded: ChatMessage[] = [];
+
+        for (const message of messages) {
+            if (message.role !== 'user' || typeof message.content !== 'string' || remainingChars <= 0) {
+                expanded.push(message);
+                continue;
+            }
+
+            const sections: string[] = [];
+            let queue = this.resolveLinkedNotes(message.content, file.path, seenPaths);
+            for (let depth = 1; depth <= settings.linkExpansionDepth && queue.length > 0; depth++) {
+                const nextQueue: LinkedNote[] = [];
+                for (const linked of queue) {
+                    if (remainingChars <= 0) {
+                        break;
+                    }
+                    let content = await this.readLinkedNote(linked);
+                    if (depth < settings.linkExpansionDepth) {
+                        nextQueue.push(...this.resolveLinkedNotes(content, linked.file.path, seenPaths));
+                    }
+                    if (content.length > remainingChars) {
+                        content = `${content.substring(0, remainingChars)}\n[truncated: linked note size limit reached]`;
+                        remainingChars = 0;
+                    } else {
+                        remainingChars -= content.length;
+                    }
+                    const label = linked.subpath ? `${linked.file.path}${linked.subpath}` : linked.file.path;
+                    sections.push(`<linked-note path="${label}">\n${content}\n</linked-note>`);
+                }
+                queue = nextQueue;
+            }
+
+            if (sections.length > 0) {
+                log.debug(`NoteContextService: Inlined ${sections.length} linked note(s) into a user message.`);
+                expanded.push({ ...message, content: `${message.content}\n\n${sections.join('\n\n')}` });
+            } else {
+                expanded.push(message);
+            }
+        }
+
+        return expanded;
+    }
+
+    /**
+     * Resolves the markdown notes linked from text, skipping any already seen
+     * (and marking the new ones as seen). Links to missing or non-markdown files are ignored.
+     */
+    private resolveLinkedNotes(text: string, sourcePath: string, seenPaths: Set<string>): LinkedNote[] {
+        const linkedNotes: LinkedNote[] = [];
+        for (const link of findWikiLinks(text)) {
+            const linkedFile = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+            if (!linkedFile || linkedFile.extension !== 'md') {
+                continue;
+            }
+            const key = link.subpath ? `${linkedFile.path}${link.subpath}` : linkedFile.path;
+            if (seenPaths.has(key) || seenPaths.has(linkedFile.path)) {
+                continue;
+            }
+            seenPaths.add(key);
+            linkedNotes.push({ file: linkedFile, subpath: link.subpath });
+        }
+        return linkedNotes;
+    }
+
+    /**
+     * Reads a linked note's content, narrowed to the linked heading or block if any.
+     */
+    private async readLinkedNote(linked: LinkedNote): Promise<string> {
+        const content = await this.app.vault.cachedRead(linked.file);
+        if (linked.subpath) {
+            const cache = this.app.metadataCache.getFileCache(linked.file);
+            const section = cache ? resolveSubpath(cache, linked.subpath) : null;
+            if (section) {
+                return content.substring(section.start.offset, section.end?.offset ?? content.length).trim();
+            }
+            log.debug(`NoteContextService: Could not resolve "${linked.subpath}" in ${linked.file.path}; inlining the whole note.`);
+        }
+        return stripFrontmatter(content).trim();
+    }
+
+    /**
+     * Attaches images embedded in user messages (`![[diagram.png]]`) as
+     * multimodal image parts, base64-encoded from the vault files.
+     * @param messages The parsed conversation.
+     * @param file The chat note, used to resolve relative links.
+     * @param includeImages Whether the images should be read and attached; when
+     *        false, embedded images are only counted (for a warning).
+     * @returns The conversation (with image parts when included) and the number
+     *          of embedded images found.
+     */
+    async attachImages(messages: ChatMessage[], file: TFile, includeImages: boolean): Promise<{ messages: ChatMessage[], imageCount: number }> {
+        let imageCount = 0;
+        const result: ChatMessage[] = [];
+
+        for (const message of messages) {
+            if (message.role !== 'user' || typeof message.content !== 'string') {
+                result.push(message);
+                continue;
+            }
+
+            const imageFiles = this.resolveEmbeddedImages(message.content, file.path);
+            imageCount += imageFiles.length;
+            if (!includeImages || imageFiles.length === 0) {
+                result.push(message);
+                continue;
+            }
+
+            const parts: ChatContentPart[] = [{ type: 'text', text: message.content }];
+            for (const imageFile of imageFiles) {
+                const data = arrayBufferToBase64(await this.app.vault.readBinary(imageFile));
+                const mimeType = IMAGE_MIME_TYPES[imageFile.extension.toLowerCase()];
+                parts.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } });
+                log.debug(`NoteContextService: Attached image ${imageFile.path}`);
+            }
+            result.push({ ...message, content: parts });
+        }
+
+        return { messages: result, imageCount };
+    }
+
+    /**
+     * Resolves the supported image files embedded in text, each at most once.
+     */
+    private resolveEmbeddedImages(text: string, sourcePath: string): TFile[] {
+        const imageFiles: TFile[] = [];
+        for (const link of findWikiLinks(text)) {
+            if (!link.embed) {
+                continue;
+            }
+            const linkedFile = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, sourcePath);
+            if (linkedFile && IMAGE_MIME_TYPES[linkedFile.extension.toLowerCase()] && !imageFiles.includes(linkedFile)) {
+                imageFiles.push(linkedFile);
+            }
+        }
+        return imageFiles;
+    }
+}
@@ -0,0 +1,135 @@
+import { Component, MarkdownView, TFile, debounce } from 'obsidian';
+import SimpleNoteChatPlugin from './main';
+import { ActiveStreamSummary } from './ChatService';
+import { log } from './utils/logger';
+
+// How often the elapsed time and rate are redrawn while a response streams
+const STREAM_REFRESH_MS = 1000;
+
+/**
+ * Status bar item for the active note: the model it chats with and the
+ * estimated size of its conversation, or, while a response streams into it,
+ * the elapsed time and output rate. Clicking it opens the model selector.
+ */
+export class NoteStatusBar extends Component {
+	private plugin: SimpleNoteChatPlugin;
+	private el: HTMLElement;
+	private file: TFile | null = null;
+	private estimatedTokens: number | null = null;
+	private estimateRequest = 0; // Lets a slow estimate for an earlier note be discarded
+	private requestEstimate = debounce(() => this.updateEstimate(), 500, true);
+
+	constructor(plugin: SimpleNoteChatPlugin, el: HTMLElement) {
+		super();
+		this.plugin = plugin;
+		this.el = el;
+	}
+
+	onload(): void {
+		const { workspace, metadataCache } = this.plugin.app;
+		this.el.addClass('snc-note-status', 'mod-clickable');
+		this.el.setAttribute('data-tooltip-position', 'top');
+		this.registerDomEvent(this.el, 'click', () => this.plugin.editorHandler.openModelSelectorModal());
+
+		this.registerEvent(workspace.on('active-leaf-change', () => this.onActiveNoteChanged()));
+		this.registerEvent(workspace.on('editor-change', (_editor, info) => {
+			if (info.file === this.file) {
+				this.requestEstimate();
+			}
+		}));
+		// Picks up a model set in the note's frontmatter
+		this.registerEvent(metadataCache.on('changed', (file) => {
+			if (file === this.file) {
+				this.render();
+			}
+		}));
+		this.register(this.plugin.chatService.onStreamsChanged(() => this.render()));
+		this.registerInterval(window.setInterval(() => {
+			if (this.getNoteStreams().length > 0) {
+				this.render();
+			}
+		}, STREAM_REFRESH_MS));
+
+		this.onActiveNoteChanged();
+	}
+
+	/**
+	 * Redraws the item, e.g. after the default model changed in settings.
+	 */
+	render(): void {
+		if (!this.file) {
+			this.el.toggle(false);
+			return;
+		}
+		this.el.toggle(true);
+
+		const model = this.plugin.chatService.getEffectiveModel(this.file, this.plugin.settings);
+		const streams = this.getNoteStreams();
+		const parts = [model];
+		if (streams.length > 0) {
+			parts.push(...formatStreamProgress(streams));
+		} else if (this.estimatedTokens !== null) {
+			parts.push(`~${formatTokenCount(this.estimatedTokens)} tokens`);
+		}
+		this.el.setText(parts.join(' · '));
+		this.el.setAttribute('aria-label', streams.length > 0
+			? `Streaming from ${streams.map(stream => stream.model).join(', ')}. Click to change the model.`
+			: 'Estimated prompt tokens of this chat. Click to change the model.');
+	}
+
+	private onActiveNoteChanged(): void {
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		const file = view?.file ?? null;
+		if (file === this.file) {
+			return;
+		}
+		this.file = file;
+		this.estimatedTokens = null;
+		this.render();
+		this.updateEstimate();
+	}
+
+	private async updateEstimate(): Promise<void> {
+		const file = this.file;
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!file || view?.file !== file) {
+			return;
+		}
+		const request = ++this.estimateRequest;
+		try {
+			const tokens = await this.plugin.chatService.estimateConversationTokens(file, view.editor.getValue(), this.plugin.settings);
+			if (request === this.estimateRequest) {
+				this.estimatedTokens = tokens;
+				this.render();
+			}
+		} catch (error) {
+			log.debug('Could not estimate the chat size for the status bar:', error);
+		}
+	}
+
+	private getNoteStreams(): ActiveStreamSummary[] {
+		const file = this.file;
+		return file ? this.plugin.chatService.getActiveStreams().filter(stream => stream.notePath === file.path) : [];
+	}
+}
+
+/**
+ * Describes streams in progress: time since the earliest started, and the
+ * combined output rate once text is arriving.
+ */
+function formatStreamProgress(streams: ActiveStreamSummary[]): string[] {
+	const now = Date.now();
+	const startedAt = Math.min(...streams.map(stream => stream.startedAt));
+	const parts = [`${Math.floor((now - startedAt) / 1000)}s`];
+
+	const rate = streams.reduce((total, stream) => {
+		const seconds = stream.firstChunkAt === null ? 0 : (now - stream.firstChunkAt) / 1000;
+		return seconds > 0 ? total + stream.outputTokens / seconds : total;
+	}, 0);
+	parts.push(rate > 0 ? `${Math.round(rate)} tok/s` : 'waiting…');
+	return parts;
+}
+
+function formatTokenCount(tokens: number): string {
+	return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('obsidian', () => ({
+    requestUrl: () => new Promise(() => {}), // A request that never answers
+}));
+
+import { OpenAICompatibleService } from './OpenAICompatibleService';
+import { AbortedError } from './errors';
+
+const service = new OpenAICompatibleService({
+    id: 'test',
+    name: 'Test',
+    baseUrl: 'http://localhost:1234/v1',
+    getApiKey: () => '',
+});
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+// A cancelled request must reject rather than end quietly: a stream that just
+// ends is finished like a complete answer, with a closing separator and no
+// cancelled notice.
+describe('streamChatCompletion', () => {
+    /**
+     * Stands in for fetch: the body streams the given SSE chunk, then stays
+     * open until the signal fires, when it errors the way fetch's bodies do.
+     */
+    function stubStreamingFetch(chunk: string): void {
+        vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+            const signal = init.signal as AbortSignal;
+            if (signal.aborted) {
+                throw new DOMException('Aborted', 'AbortError');
+            }
+            const body = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(new TextEncoder().encode(chunk));
+                    signal.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+                },
+            });
+            return new Response(body, { status: 200 });
+        });
+    }
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('rejects with AbortedError when cancelled before the response arrives', async () => {
+        stubStreamingFetch('');
+        const controller = new AbortController();
+        controller.abort('Cancelled by test');
+
+        const stream = service.streamChatCompletion(messages, 'model', controller.signal);
+        await expect(stream.next()).rejects.toBeInstanceOf(AbortedError);
+    });
+
+    it('rejects with AbortedError when cancelled mid-stream', async () => {
+        stubStreamingFetch('data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n');
+        const controller = new AbortController();
+
+        const stream = service.streamChatCompletion(messages, 'model', controller.signal);
+        expect(await stream.next()).toEqual({ done: false, value: { type: 'content', text: 'Hi' } });
+        controller.abort('Cancelled by test');
+        await expect(stream.next()).rejects.toBeInstanceOf(AbortedError);
+    });
+});
+
+describe('getChatCompletion', () => {
+    it('rejects with AbortedError when cancelled, without waiting for the response', async () => {
+        const controller = new AbortController();
+        const completion = service.getChatCompletion('model', messages, undefined, controller.signal);
+        controller.abort('Cancelled by test');
+        await expect(completion).rejects.toBeInstanceOf(AbortedError);
+    });
+});
@@ -0,0 +1,430 @@
+// src/OpenAICompatibleService.ts
+import { requestUrl } from 'obsidian';
+import { ChatMessage } from './types';
+import {
+    ChatProvider,
+    ModelInfo,
+    ChatCompletionOptions,
+    ChatStreamEvent
+} from './ChatProvider';
+import { AbortedError, ConfigurationError, NetworkError, createResponseError, isAbortError } from './errors';
+import { log } from './utils/logger';
+import { parseUsage } from './utils/usage';
+import { parseRetryAfter } from './utils/retry';
+
+/**
+ * Connection details for an OpenAI-compatible chat completions API.
+ */
+export interface OpenAICompatibleConfig {
+    id: string;
+    name: string;
+    baseUrl: string;                // API root that serves /models and /chat/completions
+    getApiKey: () => string;        // Read at request time so settings changes apply immediately
+    models?: string[];              // Fixed model list; skips GET /models when non-empty
+}
+
+/**
+ * Chat provider for any server speaking the OpenAI chat completions API:
+ * Ollama, llama.cpp, LM Studio, vLLM, and the compatibility endpoints of
+ * hosted providers. OpenRouterService builds on this for OpenRouter's extras.
+ */
+export class OpenAICompatibleService implements ChatProvider {
+    readonly id: string;
+    readonly name: string;
+    protected config: OpenAICompatibleConfig;
+    protected availableModels: ModelInfo[] = [];
+    private modelsLastFetched: number = 0;
+    private cacheValidityDuration: number = 1000 * 60 * 60 * 24; // 24 hours in milliseconds
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.config = config;
+        this.id = config.id;
+        this.name = config.name;
+    }
+
+    protected get baseUrl(): string {
+        return this.config.baseUrl.replace(/\/+$/, '');
+    }
+
+    isConfigured(): boolean {
+        return !!this.config.baseUrl;
+    }
+
+    /**
+     * Checks if the model cache is valid.
+     * @returns true if models are cached and the cache hasn't expired.
+     */
+    private isCacheValid(): boolean {
+        return this.availableModels.length > 0 &&
+               (Date.now() - this.modelsLastFetched) < this.cacheValidityDuration;
+    }
+
+    /**
+     * Throws if the provider can't make requests yet. Local servers usually
+     * need no API key, so only the base URL is required here.
+     */
+    protected assertConfigured(): void {
+        if (!this.config.baseUrl) {
+            throw new ConfigurationError(`${this.name}: base URL is not set.`);
+        }
+    }
+
+    protected buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const apiKey = this.config.getApiKey();
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Builds the chat completions request body. Reasoning effort is sent as the
+     * standard `reasoning_effort` field; servers that don't support it ignore it.
+     */
+    protected buildRequestBody(messages: ChatMessage[], model: string, stream: boolean, options?: ChatCompletionOptions): any {
+        const requestBody: any = {
+            model: model,
+            messages: messages,
+            stream: stream,
+        };
+        if (stream) {
+            requestBody.stream_options = { include_usage: true }; // Token counts arrive on the final chunk
+        }
+        if (options?.maxTokens !== undefined && options.maxTokens > 0) {
+            requestBody.max_tokens = options.maxTokens;
+        }
+        if (options?.reasoning?.effort) {
+            requestBody.reasoning_effort = options.reasoning.effort;
+        }
+        return requestBody;
+    }
+
+    /**
+     * Converts one entry of the GET /models response into a ModelInfo.
+     */
+    protected toModelInfo(raw: any): ModelInfo {
+        return { id: raw.id, name: raw.name || raw.id };
+    }
+
+    /**
+     * Fetches models from the provider or returns cached models if available.
+     * A fixed model list in the config is returned as-is.
+     * @param forceRefresh Whether to force a refresh from the API instead of using cache.
+     * @returns A promise that resolves to an array of models.
+     * @throws ConfigurationError if the provider isn't configured; ChatCompletionError (see errors.ts)
+     *         if the request fails; Error if the response is malformed.
+     */
+    async fetchModels(forceRefresh: boolean = false): Promise<ModelInfo[]> {
+        if (this.config.models && this.config.models.length > 0) {
+            return this.config.models.map(id => this.getCachedModel(id) ?? { id, name: id });
+        }
+
+        // Return cached models if available and cache is still valid
+        if (!forceRefresh && this.isCacheValid()) {
+            log.debug(`${this.name}: Using cached models`);
+            return this.availableModels;
+        }
+
+        this.assertConfigured();
+
+        let response;
+        try {
+            response = await requestUrl({
+                url: `${this.baseUrl}/models`,
+                method: 'GET',
+                headers: this.buildHeaders(),
+                throw: false, // Prevent requestUrl from throwing on non-200 status
+            });
+        } catch (error) {
+            log.error(`Network or other error fetching models from ${this.name}:`, error);
+            throw new NetworkError(`Error connecting to ${this.name}. Check your network connection and the base URL.`);
+        }
+
+        if (response.status !== 200) {
+            log.error(`Error fetching models from ${this.name}: ${response.status}`, response.text);
+            let errorMessage = `Failed to fetch models from ${this.name}. Status: ${response.status}.`;
+            if (response.status === 401) {
+                errorMessage += ' Please check your API key.';
+            }
+            throw createResponseError(errorMessage, response.status, parseRetryAfter(getHeader(response.headers, 'Retry-After')));
+        }
+
+        const data = response.json;
+        if (!data || !Array.isArray(data.data)) {
+            log.error(`Unexpected response structure from ${this.name}:`, data);
+            throw new Error(`Failed to parse model list from ${this.name}. Unexpected format.`);
+        }
+
+        // Update the cache
+        this.availableModels = data.data.map((raw: any) => this.toModelInfo(raw));
+        this.modelsLastFetched = Date.now();
+        log.debug(`${this.name}: Model cache updated at: ${this.modelsLastFetched}`);
+        return this.availableModels;
+    }
+
+    /**
+     * Looks up a model in the cached model list.
+     * @param modelId The model ID to look up.
+     * @returns The model, or undefined if models haven't been fetched or the ID is unknown.
+     */
+    getCachedModel(modelId: string): ModelInfo | undefined {
+        return this.availableModels.find(model => model.id === modelId);
+    }
+
+    /**
+     * Performs a streaming chat completion request.
+     * @param messages The chat history messages.
+     * @param model The provider's model ID.
+     * @param signal AbortSignal to allow cancellation.
+     * @param options Optional completion cap and reasoning configuration.
+     * @returns An async generator yielding content, reasoning, finish, and usage events.
+     * @throws ChatCompletionError (see errors.ts) if the request fails; AbortedError if it is cancelled;
+     *         Error if the stream cannot be processed.
+     */
+    async * streamChatCompletion(
+        messages: ChatMessage[],
+        model: string,
+        signal: AbortSignal,
+        options?: ChatCompletionOptions
+    ): AsyncGenerator<ChatStreamEvent> {
+        this.assertConfigured();
+
+        const requestBody = this.buildRequestBody(messages, model, true, options);
+        log.debug(`${this.name}: Sending stream request:`, JSON.stringify(requestBody, null, 2));
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(requestBody),
+                signal: signal,
+            });
+
+            log.debug(`${this.name}: Response status:`, response.status);
+
+        } catch (error: any) {
+             log.error(`${this.name}: Fetch error:`, error);
+             if (error.name === 'AbortError') {
+                 log.debug(`${this.name}: Fetch aborted.`);
+                 throw new AbortedError(signal.reason || 'Chat cancelled');
+             }
+             throw new NetworkError(`Network error calling ${this.name}: ${error.message}`);
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text().catch(() => 'Failed to read error body');
+            log.error(`${this.name}: API Error:`, response.status, errorBody);
+            let specificError = `API request failed with status ${response.status}`;
+            try {
+                const errorJson = JSON.parse(errorBody);
+                specificError += `: ${errorJson.error?.message || errorBody}`;
+            } catch {
+                specificError += `: ${errorBody || response.statusText}`;
+            }
+            throw createResponseError(specificError, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+        }
+
+        if (!response.body) {
+            throw new Error('Response body is null.');
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        let done = false;
+
+        try {
+            while (!done) {
+                 if (signal.aborted) {
+                    log.debug(`${this.name}: Abort signal detected during stream read.`);
+                    // Ensure the reader is cancelled if we break early
+                    await reader.cancel('Aborted by signal');
+                    // Throwing here ensures the calling ChatService knows it was aborted
+                    throw new AbortedError(signal.reason || 'Chat cancelled');
+                 }
+
+                let readResult; // Allow TypeScript to infer the type from the assignment below
+                try {
+                    readResult = await reader.read();
+                    done = readResult.done;
+                } catch (readError: any) {
+                     // Catch errors during reader.read() itself
+                     log.error(`${this.name}: Error reading stream chunk:`, readError);
+                     // Check if it's an abort error triggered by reader.cancel()
+                     if (readError.name === 'AbortError') {
+                         // The signal fired while waiting for the next chunk
+                         throw new AbortedError(signal.reason || 'Chat cancelled');
+                     }
+                     throw new Error(`Error reading stream: ${readError.message}`);
+                }
+
+                if (readResult.value) {
+                    // Some servers terminate SSE lines with \r\n
+                    buffer += readResult.value.replace(/\r\n/g, '\n');
+
+                    let endOfMessageIndex;
+                    while ((endOfMessageIndex = buffer.indexOf('\n\n')) >= 0) {
+                        const message = buffer.substring(0, endOfMessageIndex);
+                        buffer = buffer.substring(endOfMessageIndex + 2);
+
+                        if (message.startsWith('data: ')) {
+                            const dataContent = message.substring(6).trim();
+                            if (dataContent === '[DONE]') {
+                                log.info(`${this.name}: Received [DONE] signal.`);
+                                continue;
+                            }
+                            try {
+                                const jsonData = JSON.parse(dataContent);
+                                const choice = jsonData.choices?.[0];
+                                const delta = choice?.delta;
+                                // OpenRouter and Ollama use `reasoning`; llama.cpp and vLLM use `reasoning_content`
+                                const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+                                if (reasoning) {
+                                    log.debug(`${this.name}: Received reasoning chunk:`, reasoning);
+                                    yield { type: 'reasoning', text: reasoning };
+                                }
+                                if (delta?.content) {
+                                    log.debug(`${this.name}: Received chunk:`, delta.content);
+                                    yield { type: 'content', text: delta.content };
+                                }
+                                if (choice?.finish_reason) {
+                                    log.debug(`${this.name}: Stream finished, finish_reason: ${choice.finish_reason}`);
+                                    yield { type: 'finish', reason: choice.finish_reason };
+                                }
+                                const usage = parseUsage(jsonData.usage);
+                                if (usage) {
+                                    log.debug(`${this.name}: Received usage:`, usage);
+                                    yield { type: 'usage', usage };
+                                }
+                            } catch (e) {
+                                log.error(`${this.name}: Error parsing SSE JSON:`, e, 'Data:', dataContent);
+                            }
+                        } else if (message.startsWith(':')) {
+                             log.debug(`${this.name}: Received SSE comment:`, message);
+                        } else if (message.trim()) {
+                             log.warn(`${this.name}: Received unexpected non-empty line:`, message);
+                        }
+                    }
+                }
+            }
+            log.debug(`${this.name}: Stream finished.`);
+
+        } finally {
+            if (!done) {
+                 log.debug(`${this.name}: Stream loop exited unexpectedly, ensuring reader cancellation.`);
+                 try {
+                     await reader.cancel('Stream processing finished or errored.');
+                 } catch (cancelError) {
+                     log.warn(`${this.name}: Error during final reader cancellation:`, cancelError);
+                 }
+            }
+             reader.releaseLock();
+             log.debug(`${this.name}: Stream reader lock released.`);
+        }
+    }
+
+    /**
+     * Performs a non-streaming chat completion request.
+     * @param model The provider's model ID.
+     * @param messages The chat history messages.
+     * @param options Optional completion cap and reasoning configuration.
+     * @param signal Optional AbortSignal to allow cancellation.
+     * @returns A promise that resolves to the completion content string.
+     * @throws ChatCompletionError (see errors.ts) if the request fails; AbortedError if it is cancelled;
+     *         Error if the provider isn't configured or the response has no content.
+     */
+    async getChatCompletion(
+        model: string,
+        messages: ChatMessage[],
+        options?: ChatCompletionOptions,
+        signal?: AbortSignal
+    ): Promise<string> {
+        this.assertConfigured();
+
+        const requestBody = this.buildRequestBody(messages, model, false, options);
+        log.debug(`${this.name}: Sending non-stream request:`, JSON.stringify(requestBody, null, 2));
+
+        let response;
+        try {
+            response = await untilAborted(requestUrl({
+                url: `${this.baseUrl}/chat/completions`,
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: JSON.stringify(requestBody),
+                throw: false, // Prevent requestUrl from throwing on non-200 status
+            }), signal);
+        } catch (error) {
+            if (isAbortError(error)) {
+                log.debug(`${this.name}: Non-stream completion aborted.`);
+                throw error;
+            }
+            log.error(`${this.name}: Network or other error during non-stream completion:`, error);
+            throw new NetworkError(`Error connecting to ${this.name}. Check your network connection.`);
+        }
+
+        log.debug(`${this.name}: Non-stream response status:`, response.status);
+
+        if (response.status !== 200) {
+            log.error(`${this.name}: Error fetching non-stream completion: ${response.status}`, response.text);
+            let errorMessage = `LLM request failed. Status: ${response.status}.`;
+            try {
+                const errorJson = response.json; // Try parsing error JSON
+                errorMessage += ` ${errorJson?.error?.message || response.text || ''}`;
+            } catch {
+                errorMessage += ` ${response.text || 'Could not read error body.'}`;
+            }
+            throw createResponseError(errorMessage, response.status, parseRetryAfter(getHeader(response.headers, 'Retry-After')));
+        }
+
+        const data = response.json;
+        const choice = data?.choices?.[0];
+        const content = choice?.message?.content;
+
+        if (!content) {
+            // finish_reason is the key diagnostic here: "length" means the token cap
+            // starved the content (e.g. reasoning consumed the whole budget).
+            const finishReason = choice?.finish_reason ?? 'unknown';
+            const nativeFinishReason = choice?.native_finish_reason ?? 'unknown';
+            log.error(`${this.name}: No content in non-stream response. finish_reason: ${finishReason}, native_finish_reason: ${nativeFinishReason}`, data);
+            if (finishReason === 'length') {
+                throw new Error('Model ran out of tokens before answering (finish_reason: length). Try raising the reasoning token limit or lowering the reasoning effort.');
+            }
+            throw new Error(`LLM returned no content (finish_reason: ${finishReason}).`);
+        }
+
+        log.debug(`${this.name}: Received non-stream completion.`);
+        log.debug(`${this.name}: Content:`, content);
+        return content.trim();
+    }
+}
+
+/**
+ * Settles with the request, or rejects with AbortedError as soon as the signal
+ * fires. requestUrl can't be cancelled, so a late response is ignored.
+ */
+function untilAborted<T>(request: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return request;
+    }
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new AbortedError(signal.reason || 'Chat cancelled'));
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        request
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Reads a header from requestUrl's response, whose header names may come in any case.
+ */
+function getHeader(headers: Record<string, string>, name: string): string | null {
+    const lowerName = name.toLowerCase();
+    const key = Object.keys(headers ?? {}).find(header => header.toLowerCase() === lowerName);
+    return key ? headers[key] : null;
+}
@@ -0,0 +1,435 @@
+// src/ProviderRegistry.ts
+import { PluginSettings, ChatMessage, CustomProviderSettings } from './types';
+import {
+    ChatProvider,
+    ModelInfo,
+    ModelReasoningInfo,
+    ChatCompletionOptions,
+    ChatStreamEvent
+} from './ChatProvider';
+import { ChatCompletionError, ConfigurationError } from './errors';
+import { OpenRouterService } from './OpenRouterService';
+import { OpenAICompatibleService } from './OpenAICompatibleService';
+import { qualifyModelId, parseModelId } from './utils/modelIds';
+import { RetryPolicy, getRetryDelay, sleep } from './utils/retry';
+import { RETRY_MAX_DELAY_MS } from './constants';
+import { log } from './utils/logger';
+
+/**
+ * Defines the available sorting options for models.
+ */
+export enum ModelSortOption {
+    ALPHABETICAL = 'alphabetical',
+    PROMPT_PRICE_ASC = 'prompt_price_asc',
+    PROMPT_PRICE_DESC = 'prompt_price_desc',
+    COMPLETION_PRICE_ASC = 'completion_price_asc',
+    COMPLETION_PRICE_DESC = 'completion_price_desc'
+}
+
+/**
+ * Represents the formatted information for a model, suitable for display.
+ */
+export interface FormattedModelInfo {
+    id: string;
+    displayName: string;
+}
+
+/**
+ * Routes model listing and chat requests to the configured providers:
+ * OpenRouter plus any custom OpenAI-compatible providers from settings.
+ * Model IDs here are qualified (see utils/modelIds); providers only ever
+ * see their own IDs.
+ */
+export class ProviderRegistry {
+    private openRouterService: OpenRouterService;
+    private getSettings: () => PluginSettings;
+    // Custom providers, rebuilt when their settings change so stale model caches are dropped
+    private customProviders = new Map<string, { configKey: string; provider: OpenAICompatibleService }>();
+
+    constructor(openRouterService: OpenRouterService, getSettings: () => PluginSettings) {
+        this.openRouterService = openRouterService;
+        this.getSettings = getSettings;
+    }
+
+    /**
+     * All providers that are ready to make requests, OpenRouter first.
+     */
+    getProviders(): ChatProvider[] {
+        const providers: ChatProvider[] = [this.openRouterService];
+        const seenIds = new Set<string>();
+        for (const providerSettings of this.getSettings().customProviders ?? []) {
+            const id = providerSettings.id.trim();
+            if (!id || seenIds.has(id)) {
+                continue;
+            }
+            seenIds.add(id);
+            providers.push(this.getCustomProvider(id, providerSettings));
+        }
+        // Drop instances for providers that were removed from settings
+        for (const id of Array.from(this.customProviders.keys())) {
+            if (!seenIds.has(id)) {
+                this.customProviders.delete(id);
+            }
+        }
+        return providers.filter(provider => provider.isConfigured());
+    }
+
+    /** True if at least one provider can list models and run chats. */
+    hasConfiguredProvider(): boolean {
+        return this.getProviders().length > 0;
+    }
+
+    private getCustomProvider(id: string, providerSettings: CustomProviderSettings): OpenAICompatibleService {
+        const configKey = JSON.stringify([providerSettings.baseUrl, providerSettings.apiKey, providerSettings.models]);
+        const existing = this.customProviders.get(id);
+        if (existing && existing.configKey === configKey) {
+            return existing.provider;
+        }
+        const provider = new OpenAICompatibleService({
+            id,
+            name: id,
+            baseUrl: providerSettings.baseUrl.trim(),
+            getApiKey: () => providerSettings.apiKey.trim(),
+            models: providerSettings.models.split(',').map(model => model.trim()).filter(Boolean),
+        });
+        this.customProviders.set(id, { configKey, provider });
+        return provider;
+    }
+
+    /**
+     * Finds the provider for a qualified model ID.
+     * @throws ConfigurationError if the model ID names a provider that isn't configured.
+     */
+    private resolve(qualifiedModelId: string): { provider: ChatProvider; modelId: string } {
+        const { providerId, modelId } = parseModelId(qualifiedModelId);
+        const provider = this.getProviders().find(p => p.id === providerId)
+            ?? (providerId === this.openRouterService.id ? this.openRouterService : undefined);
+        if (!provider) {
+            throw new ConfigurationError(`No provider named "${providerId}" is configured (model "${qualifiedModelId}"). Add it under Providers in the plugin settings.`);
+        }
+        return { provider, modelId };
+    }
+
+    /**
+     * Fetches and merges the model lists of all configured providers. A provider
+     * that fails is logged and skipped, so one offline local server doesn't hide
+     * every other model.
+     * @param forceRefresh Whether to bypass the providers' model caches.
+     * @returns The merged models with qualified IDs.
+     * @throws ConfigurationError if no provider is configured; the first provider's error if every provider failed.
+     */
+    async fetchModels(forceRefresh: boolean = false): Promise<ModelInfo[]> {
+        const providers = this.getProviders();
+        if (providers.length === 0) {
+            throw new ConfigurationError('No model provider is configured. Add an OpenRouter API key or a custom provider in the plugin settings.');
+        }
+
+        const results = await Promise.allSettled(providers.map(provider => provider.fetchModels(forceRefresh)));
+        const models: ModelInfo[] = [];
+        const errors: unknown[] = [];
+        results.forEach((result, index) => {
+            const provider = providers[index];
+            if (result.status === 'rejected') {
+                log.error(`ProviderRegistry: Failed to fetch models from ${provider.name}:`, result.reason);
+                errors.push(result.reason);
+                return;
+            }
+            models.push(...result.value.map(model => this.qualifyModel(provider, model)));
+        });
+
+        if (models.length === 0 && errors.length > 0) {
+            throw errors[0];
+        }
+        return models;
+    }
+
+    private qualifyModel(provider: ChatProvider, model: ModelInfo): ModelInfo {
+        if (provider.id === this.openRouterService.id) {
+            return model;
+        }
+        return { ...model, id: qualifyModelId(provider.id, model.id) };
+    }
+
+    /**
+     * Looks up a model in its provider's cached model list.
+     * @param modelId The qualified model ID to look up.
+     * @returns The model (with its qualified ID), or undefined if it isn't cached
+     *          or its provider isn't configured.
+     */
+    getCachedModel(modelId: string): ModelInfo | undefined {
+        try {
+            const { provider, modelId: providerModelId } = this.resolve(modelId);
+            const model = provider.getCachedModel(providerModelId);
+            return model ? this.qualifyModel(provider, model) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Looks up a model's reasoning capabilities from the cached model list.
+     * @param modelId The model ID to look up.
+     * @returns The model's reasoning info, or undefined if the model isn't cached
+     *          or doesn't report reasoning support (treat as unknown/not applicable).
+     */
+    getModelReasoningInfo(modelId: string): ModelReasoningInfo | undefined {
+        return this.getCachedModel(modelId)?.reasoning;
+    }
+
+    /**
+     * Checks whether a model accepts image input, based on the cached model list.
+     * @param modelId The model ID to look up.
+     * @returns True or false when the model reports its input modalities, or
+     *          undefined if the model isn't cached or doesn't report them
+     *          (e.g. router models like openrouter/auto, or local servers).
+     */
+    modelAcceptsImages(modelId: string): boolean | undefined {
+        const architecture = this.getCachedModel(modelId)?.architecture;
+        if (!architecture) {
+            return undefined;
+        }
+        if (architecture.input_modalities) {
+            return architecture.input_modalities.includes('image');
+        }
+        if (architecture.modality) {
+            const [inputModalities] = architecture.modality.split('->');
+            return inputModalities.split('+').includes('image');
+        }
+        return undefined;
+    }
+
+    /**
+     * Streams a chat completion from the model's provider. Requests that fail
+     * with a transient error before anything has streamed are retried (see
+     * the retry settings); once text has arrived, failures are passed on.
+     * @param messages The chat history messages.
+     * @param model The qualified model ID (the note's override or the default model).
+     * @param signal AbortSignal to allow cancellation.
+     * @param options Optional completion cap and reasoning configuration.
+     * @throws ConfigurationError if the model isn't set or its provider isn't configured;
+     *         the last ChatCompletionError once retries are used up.
+     */
+    async * streamChatCompletion(
+        messages: ChatMessage[],
+        model: string,
+        signal: AbortSignal,
+        options?: ChatCompletionOptions
+    ): AsyncGenerator<ChatStreamEvent> {
+        if (!model) {
+            log.error('ProviderRegistry: Chat model is not set.');
+            throw new ConfigurationError("Chat model is not set");
+        }
+        const { provider, modelId } = this.resolve(model);
+        for (let attempt = 0; ; attempt++) {
+            let streamed = false;
+            try {
+                for await (const event of provider.streamChatCompletion(messages, modelId, signal, options)) {
+                    streamed = true;
+                    yield event;
+                }
+                return;
+            } catch (error) {
+                const delay = streamed ? null : this.getRetryDelay(error, attempt);
+                if (delay === null) {
+                    throw error;
+                }
+                log.warn(`${model} failed, retrying in ${delay}ms (retry ${attempt + 1}):`, error);
+                await sleep(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * Performs a non-streaming chat completion with the model's provider,
+     * retrying transient failures like streamChatCompletion does.
+     * @param model The qualified model ID.
+     * @param messages The chat history messages.
+     * @param options Optional completion cap and reasoning configuration.
+     * @param signal Optional AbortSignal to cancel the request and its retries.
+     * @returns A promise that resolves to the completion content string.
+     */
+    async getChatCompletion(model: string, messages: ChatMessage[], options?: ChatCompletionOptions, signal?: AbortSignal): Promise<string> {
+        const { provider, modelId } = this.resolve(model);
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await provider.getChatCompletion(modelId, messages, options, signal);
+            } catch (error) {
+                const delay = this.getRetryDelay(error, attempt);
+                if (delay === null) {
+                    throw error;
+                }
+                log.warn(`${model} failed, retrying in ${delay}ms (retry ${attempt + 1}):`, error);
+                await sleep(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * @returns How long to wait before retrying after the error, or null to give up.
+     */
+    private getRetryDelay(error: unknown, attempt: number): number | null {
+        if (!(error instanceof ChatCompletionError) || !error.isTransient) {
+            return null;
+        }
+        const settings = this.getSettings();
+        const policy: RetryPolicy = {
+            maxRetries: settings.maxRetries,
+            baseDelayMs: settings.retryInitialDelay * 1000,
+            maxDelayMs: RETRY_MAX_DELAY_MS,
+        };
+        return getRetryDelay(policy, attempt, error.retryAfterMs);
+    }
+
+
+    /**
+     * Sorts an array of models based on specified criteria.
+     * @param models The array of models to sort.
+     * @param sortCriteria The sorting criteria enum value. Defaults to `ModelSortOption.ALPHABETICAL`.
+     * @returns The sorted array of models.
+     */
+    sortModels(models: ModelInfo[], sortCriteria: ModelSortOption = ModelSortOption.ALPHABETICAL): ModelInfo[] {
+        const modelsToSort = [...models];
+
+        // Helper to get a consistent name for sorting
+        const getModelName = (model: ModelInfo): string =>
+            model.name?.toLowerCase() ?? model.id?.toLowerCase() ?? '';
+
+        // Helper to parse price, handling 0, null/undefined, and invalid strings
+        const parsePrice = (price: string | undefined | null): number => {
+            if (price === undefined || price === null) return Infinity;
+            const numPrice = parseFloat(price);
+            // Treat NaN or negative prices (shouldn't happen) as Infinity for sorting
+            return isNaN(numPrice) || numPrice < 0 ? Infinity : numPrice;
+        };
+
+        modelsToSort.sort((a, b) => {
+            const nameA = getModelName(a);
+            const nameB = getModelName(b);
+            let comparison = 0;
+
+            // Primary sort based on criteria
+            switch (sortCriteria) {
+                case ModelSortOption.PROMPT_PRICE_ASC:
+                case ModelSortOption.PROMPT_PRICE_DESC: {
+                    const priceA = parsePrice(a.pricing?.prompt);
+                    const priceB = parsePrice(b.pricing?.prompt);
+                    comparison = priceA - priceB;
+                    if (sortCriteria === ModelSortOption.PROMPT_PRICE_DESC) {
+                        comparison *= -1;
+                    }
+                    break;
+                }
+                case ModelSortOption.COMPLETION_PRICE_ASC:
+                case ModelSortOption.COMPLETION_PRICE_DESC: {
+                    const priceA = parsePrice(a.pricing?.completion);
+                    const priceB = parsePrice(b.pricing?.completion);
+                    comparison = priceA - priceB;
+                    if (sortCriteria === ModelSortOption.COMPLETION_PRICE_DESC) {
+                        comparison *= -1;
+                    }
+                    break;
+                }
+                case ModelSortOption.ALPHABETICAL:
+                default:
+                    comparison = nameA.localeCompare(nameB);
+                    break;
+            }
+
+            // Secondary sort: if primary comparison is equal, sort alphabetically
+            if (comparison === 0 && sortCriteria !== ModelSortOption.ALPHABETICAL) {
+                comparison = nameA.localeCompare(nameB);
+            }
+
+            return comparison;
+        });
+
+        return modelsToSort;
+    }
+
+    /**
+     * Formats a price string (representing price per token) into price per million tokens.
+     * @param price The price string (e.g., "0.0000015") or undefined/null.
+     * @returns A formatted string representing the price per million tokens (e.g., "$1.50", "free", "<$0.01").
+     */
+    private formatPricePerMillion(price: string | undefined | null): string {
+        if (price === undefined || price === null) return '?'; // Indicate unknown price
+
+        const numPrice = typeof price === 'string' ? parseFloat(price) : NaN;
+
+        if (isNaN(numPrice)) return '?'; // Indicate invalid price string
+        if (numPrice === 0) return 'free';
+
+        const pricePerMillion = numPrice * 1000000;
+
+        let formattedPrice: string;
+        // Format based on magnitude
+        if (pricePerMillion < 0.01) {
+            formattedPrice = '<0.01';
+        } else if (pricePerMillion < 10) {
+            // Use toFixed(2) for prices like $1.50, $0.15 etc.
+            formattedPrice = pricePerMillion.toFixed(2);
+        } else if (pricePerMillion < 100) {
+            // Use toFixed(1) for prices like $15.5, $99.9
+            formattedPrice = pricePerMillion.toFixed(1);
+        } else {
+            // Round for prices >= $100
+            formattedPrice = Math.round(pricePerMillion).toString();
+        }
+
+        // Remove trailing zeros after decimal point if they are redundant (e.g., "1.50" -> "1.5", "2.00" -> "2")
+        // But keep ".0" if it resulted from toFixed(1) e.g. 15.0
+        if (formattedPrice.includes('.')) {
+             formattedPrice = formattedPrice.replace(/(\.\d*?)0+$/, '$1'); // Remove trailing zeros
+             formattedPrice = formattedPrice.replace(/\.$/, ''); // Remove trailing decimal point if it exists (e.g. "2.")
+        }
+
+
+        return `$${formattedPrice}`;
+    }
+
+    /**
+     * Formats a list of models for display purposes. Models from providers that
+     * don't report pricing (e.g. local servers) show their provider instead.
+     * @param models The array of models, with qualified IDs.
+     * @returns An array of FormattedModelInfo objects.
+     */
+    getFormattedModels(models: ModelInfo[]): FormattedModelInfo[] {
+        return models.map(model => {
+            const modelName = model.name || model.id; // Fallback to ID if name is missing
+
+            // Handle special cases like free models or auto-routing
+            if (model.id === 'openrouter/auto') {
+                return {
+                    id: model.id,
+                    displayName: `${modelName} | variable pricing`
+                };
+            }
+
+            if (!model.pricing) {
+                return {
+                    id: model.id,
+                    displayName: `${modelName} | ${parseModelId(model.id).providerId}`
+                };
+            }
+
+            // Check if pricing info exists and format it
+            const promptPriceStr = this.formatPricePerMillion(model.pricing.prompt);
+            const completionPriceStr = this.formatPricePerMillion(model.pricing.completion);
+
+            // Construct the display name
+            // Use 'free' explicitly if the ID indicates it, otherwise use formatted prices
+            if (model.id.includes(':free')) {
+                 // Use the name but indicate free pricing clearly
+                 return {
+                     id: model.id,
+                     displayName: `${modelName} | free | free`
+                 };
+            } else {
+                 return {
+                     id: model.id,
+                     displayName: `${modelName} | ${promptPriceStr} in | ${completionPriceStr} out`
+                 };
+            }
+        });
+    }
+}
@@ -0,0 +1,292 @@
+import { CHAT_SEPARATOR, THINKING_CALLOUT_TYPE } from './constants';
+import { StreamTarget, TrackedOffset } from './StreamTarget';
+import { MessageAttribution, findChatSeparators, formatChatSeparator } from './utils/chatNote';
+import { log } from './utils/logger';
+
+// Streamed chunks are collected and written at most this often
+const FLUSH_INTERVAL_MS = 50;
+
+/**
+ * Locates a writer's text by a marker in the note instead of a position, so
+ * several writers can stream into one note without shifting each other.
+ */
+export interface ResponseAnchor {
+    marker: string;      // Unique text that the response is written in front of
+    placeholder: string; // Status text just before the marker, removed by the first write
+}
+
+/**
+ * Writes a streamed response into a note: an opening separator, then the
+ * model's reasoning as a folded callout (if any), then the answer, and finally
+ * a closing separator so the user can continue the conversation.
+ *
+ * Chunks are buffered and written in batches, outside the undo history; once
+ * the response is done it is recorded as a single undo step. The write
+ * position follows edits made elsewhere in the note meanwhile (see StreamTarget).
+ */
+export class ResponseWriter {
+    private target: StreamTarget;
+    private anchor: ResponseAnchor | null;
+    private start: TrackedOffset | null = null; // Where the written response begins
+    private end: TrackedOffset | null = null;   // End of the written text
+    private pending = '';
+    private flushTimer: number | null = null;
+    private flushError: unknown = null;
+    private started = false;
+    private committed = false;
+    private section: 'none' | 'reasoning' | 'content' = 'none';
+    private ownsSeparators = true; // False when writing into an existing turn that stays open
+    private replacedText = '';     // Text the response took the place of (see resume())
+
+    /**
+     * @param anchor If given, text is written in front of this marker (see resume()).
+     */
+    constructor(target: StreamTarget, anchor: ResponseAnchor | null = null) {
+        this.target = target;
+        this.anchor = anchor;
+    }
+
+    /** True once the opening separator has been written (or writing has resumed). */
+    get hasStarted(): boolean {
+        return this.started;
+    }
+
+    /**
+     * Inserts the opening separator at the given offset; text is written after it.
+     * @param separator The opening separator, e.g. one carrying the response's attribution.
+     */
+    begin(offset: number, separator: string = CHAT_SEPARATOR): void {
+        this.start = this.target.track(offset, false);
+        this.end = this.target.track(offset);
+        this.insertSeparatorWithSpacing(separator);
+        this.started = true;
+    }
+
+    /**
+     * Starts writing inside an existing assistant turn at the given offset,
+     * e.g. a regenerated answer placed above its earlier variants. No opening
+     * separator is written, and finish() adds no closing separator. Anchored
+     * writers ignore the offset and replace their placeholder instead.
+     * @param options.closeTurn Have finish() close the turn after all, e.g. after a prefilled answer.
+     * @param options.continuesAnswer The offset is at the end of answer text that the new text
+     *        extends, so reasoning is dropped rather than written into the middle of the answer.
+     * @param options.replaceTo Remove the text from the offset up to here first, e.g. a selection
+     *        being rewritten; undoing the response brings it back.
+     */
+    resume(offset: number | null = null, options: { closeTurn?: boolean; continuesAnswer?: boolean; replaceTo?: number } = {}): void {
+        this.ownsSeparators = !!options.closeTurn;
+        this.started = true;
+        if (options.continuesAnswer) {
+            this.section = 'content';
+        }
+        if (this.anchor) {
+            this.removeBeforeMarker(this.anchor.placeholder);
+        } else if (offset !== null) {
+            if (options.replaceTo !== undefined && options.replaceTo > offset) {
+                this.replacedText = this.target.getText().substring(offset, options.replaceTo);
+                this.target.replace('', offset, options.replaceTo);
+            }
+            this.start = this.target.track(offset, false);
+            this.end = this.target.track(offset);
+        }
+    }
+
+    /**
+     * Appends reasoning text inside a folded `> [!thinking]-` callout. Reasoning
+     * that arrives after the answer has started is dropped, since the callout
+     * sits above the answer.
+     * @returns True if the text was written.
+     */
+    writeReasoning(text: string): boolean {
+        if (this.section === 'content') {
+            return false;
+        }
+        let block = text.replace(/\n/g, '\n> ');
+        if (this.section === 'none') {
+            block = `> [!${THINKING_CALLOUT_TYPE}]-\n> ${block}`;
+        }
+        this.section = 'reasoning';
+        this.append(block);
+        return true;
+    }
+
+    /**
+     * Appends answer text, leaving a blank line after the reasoning callout.
+     */
+    writeContent(text: string): void {
+        const block = this.section === 'reasoning' ? `\n\n${text}` : text;
+        this.section = 'content';
+        this.append(block);
+    }
+
+    /**
+     * Appends a footer line (e.g. usage) below the answer, separated by a blank line.
+     */
+    writeFooter(text: string): void {
+        this.append(`\n\n${text}`);
+    }
+
+    /**
+     * Records the attribution on the separator that opens this response: the
+     * last separator before the written text. The separator keeps its role.
+     * @returns False if no opening separator was found.
+     */
+    attribute(attribution: MessageAttribution): boolean {
+        this.flush();
+        const separators = findChatSeparators(this.target.getText().substring(0, this.requireEnd().offset));
+        const opening = separators[separators.length - 1];
+        if (!opening) {
+            return false;
+        }
+        this.target.replace(formatChatSeparator(attribution, opening.role), opening.start, opening.end);
+        return true;
+    }
+
+    /**
+     * Writes any buffered text, then appends the closing separator, unless
+     * writing into an existing turn. Anchored writers remove their marker
+     * instead. The response is then recorded as one undo step (see commitToHistory).
+     * @param commit False to leave recording the undo step to the caller, e.g.
+     *        when other writers are still streaming into this response.
+     * @returns The offset after the separator, where the user's next message goes
+     *          (or the end of the written text when continuing a turn).
+     */
+    finish(commit = true): number {
+        this.flush();
+        if (this.anchor) {
+            const markerOffset = this.findMarker();
+            this.target.replace('', markerOffset, markerOffset + this.anchor.marker.length);
+            return markerOffset;
+        }
+        if (this.ownsSeparators) {
+            this.insertSeparatorWithSpacing(CHAT_SEPARATOR);
+        }
+        if (commit) {
+            this.commitToHistory();
+        }
+        return this.requireEnd().offset;
+    }
+
+    /**
+     * Ends a response that stopped early (cancelled or failed): writes any
+     * buffered text and records what was written as one undo step, without
+     * closing the turn.
+     */
+    stop(): void {
+        try {
+            this.flush();
+        } finally {
+            this.commitToHistory();
+        }
+    }
+
+    /**
+     * Records the whole response as a single undo step. Anchored writers leave
+     * this to the writer that owns the surrounding response.
+     */
+    commitToHistory(): void {
+        if (this.anchor || this.committed || !this.start || !this.end) {
+            return;
+        }
+        this.committed = true;
+        this.target.addToHistory(this.start, this.end, this.replacedText);
+    }
+
+    private append(text: string): void {
+        this.throwFlushError();
+        if (!this.anchor) {
+            this.requireEnd();
+        }
+        this.pending += text;
+        if (this.flushTimer === null) {
+            this.flushTimer = window.setTimeout(() => {
+                this.flushTimer = null;
+                try {
+                    this.flush();
+                } catch (error) {
+                    // Raised to the streaming code on its next write
+                    log.error('Error writing streamed text:', error);
+                    this.flushError = error;
+                }
+            }, FLUSH_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Writes the buffered text in one edit.
+     */
+    private flush(): void {
+        if (this.flushTimer !== null) {
+            window.clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        this.throwFlushError();
+        if (!this.pending) {
+            return;
+        }
+        const text = this.pending;
+        this.pending = '';
+        const offset = this.anchor ? this.findMarker() : this.requireEnd().offset;
+        this.target.replace(text, offset);
+    }
+
+    private throwFlushError(): void {
+        if (this.flushError !== null) {
+            const error = this.flushError;
+            this.flushError = null;
+            throw error;
+        }
+    }
+
+    private requireEnd(): TrackedOffset {
+        if (!this.end) {
+            throw new Error("Internal state error: response written before the opening separator.");
+        }
+        return this.end;
+    }
+
+    private findMarker(): number {
+        const offset = this.target.getText().indexOf(this.anchor!.marker);
+        if (offset === -1) {
+            throw new Error("The response's place in the note was removed.");
+        }
+        return offset;
+    }
+
+    /** Removes the given text if it sits directly in front of the anchor marker. */
+    private removeBeforeMarker(text: string): void {
+        const markerOffset = this.findMarker();
+        const start = markerOffset - text.length;
+        if (text && start >= 0 && this.target.getText().substring(start, markerOffset) === text) {
+            this.target.replace('', start, markerOffset);
+        }
+    }
+
+    /**
+     * Inserts the separator with appropriate spacing at the end of the written text.
+     */
+    private insertSeparatorWithSpacing(separator: string): void {
+        const end = this.requireEnd();
+        const originalValue = this.target.getText();
+        let currentOffset = end.offset;
+
+        // Adjust position to be *after* any existing newlines at the target pos
+        while (currentOffset < originalValue.length && originalValue[currentOffset] === '\n') {
+            currentOffset++;
+        }
+
+        // Determine prefix: Need two newlines unless at start or preceded by newline.
+        let prefix = '\n\n';
+        if (currentOffset === 0) {
+            prefix = '';
+        } else if (currentOffset > 0 && originalValue[currentOffset - 1] === '\n') {
+             prefix = '\n';
+        }
+
+        const suffix = '\n\n'; // Always need two newlines after
+        const block = `${prefix}${separator}${suffix}`;
+
+        this.target.replace(block, currentOffset);
+        end.offset = currentOffset + block.length; // Also past the newlines that were skipped
+    }
+}
@@ -0,0 +1,206 @@
+import { ButtonComponent, Editor, Modal, Notice, Setting, TFile, TextAreaComponent } from 'obsidian';
+import SimpleNoteChatPlugin from './main';
+import { getErrorAdvice, isAbortError } from './errors';
+import { diffWords } from './utils/wordDiff';
+import { log } from './utils/logger';
+
+// The streamed text is redrawn at most this often
+const RENDER_INTERVAL_MS = 100;
+
+/**
+ * Streams a rewrite of the selection, then shows it as a word-level diff
+ * against the original. Nothing in the note changes until the rewrite is
+ * accepted, which replaces the selection in one edit (one undo step).
+ */
+export class RewritePreviewModal extends Modal {
+	private plugin: SimpleNoteChatPlugin;
+	private editor: Editor;
+	private file: TFile;
+	private from: number;
+	private to: number;
+	private original: string;
+	private instruction: string;
+	private rewrite = '';
+	private done = false;
+	private controller: AbortController | null = null;
+	private renderTimer: number | null = null;
+	private instructionInput: TextAreaComponent | null = null;
+	private statusEl: HTMLElement | null = null;
+	private diffEl: HTMLElement | null = null;
+	private acceptButton: ButtonComponent | null = null;
+
+	/**
+	 * @param from Start offset of the selection to rewrite.
+	 * @param to End offset of the selection.
+	 * @param instruction How to rewrite it; can be changed before retrying.
+	 */
+	constructor(plugin: SimpleNoteChatPlugin, editor: Editor, file: TFile, from: number, to: number, instruction: string) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.editor = editor;
+		this.file = file;
+		this.from = from;
+		this.to = to;
+		this.original = editor.getValue().substring(from, to);
+		this.instruction = instruction;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('snc-rewrite-modal');
+		contentEl.createEl('h2', { text: 'Rewrite selection' });
+
+		new Setting(contentEl)
+			.setName('Instruction')
+			.setDesc('Change it and retry to get another rewrite.')
+			.addTextArea(text => {
+				this.instructionInput = text;
+				text.setValue(this.instruction);
+				text.inputEl.rows = 2;
+			});
+
+		this.statusEl = contentEl.createDiv({ cls: 'snc-rewrite-status' });
+		this.diffEl = contentEl.createDiv({ cls: 'snc-diff' });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Retry')
+				.onClick(() => this.start()))
+			.addButton(button => button
+				.setButtonText('Reject')
+				.onClick(() => this.close()))
+			.addButton(button => {
+				this.acceptButton = button;
+				button.setButtonText('Accept')
+					.setCta()
+					.onClick(() => this.accept());
+			});
+
+		this.start();
+	}
+
+	onClose() {
+		this.controller?.abort('Rewrite rejected');
+		this.controller = null;
+		this.cancelRender();
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Streams a new rewrite, abandoning any that is still streaming.
+	 */
+	private async start(): Promise<void> {
+		this.controller?.abort('Rewrite retried');
+		const controller = new AbortController();
+		this.controller = controller;
+		this.instruction = this.instructionInput?.getValue().trim() || this.instruction;
+		this.rewrite = '';
+		this.done = false;
+		this.acceptButton?.setDisabled(true);
+		this.setStatus(`Rewriting with ${this.plugin.chatService.getEffectiveModel(this.file, this.plugin.settings)}...`);
+		this.render();
+
+		try {
+			const rewrite = await this.plugin.chatService.streamSelectionRewrite(
+				this.file, this.plugin.settings, this.original, this.instruction, controller.signal,
+				(text) => {
+					if (this.controller === controller) {
+						this.rewrite = text;
+						this.requestRender();
+					}
+				});
+			if (this.controller !== controller) {
+				return; // Retried or closed meanwhile
+			}
+			this.rewrite = keepSurroundingWhitespace(this.original, rewrite);
+			this.done = true;
+			this.acceptButton?.setDisabled(!this.rewrite.trim());
+			this.setStatus(this.rewrite.trim() ? 'Review the changes, then accept or reject them.' : 'The model returned no text. Retry, or reject.');
+		} catch (error) {
+			if (this.controller !== controller || isAbortError(error)) {
+				return;
+			}
+			log.error('Error streaming the rewrite preview:', error);
+			this.setStatus(getErrorAdvice(error).message, true);
+		}
+		this.cancelRender();
+		this.render();
+	}
+
+	/**
+	 * Replaces the selection with the rewrite, if the selected text is still as it was.
+	 */
+	private accept(): void {
+		if (!this.done) {
+			return;
+		}
+		let from = this.from;
+		const text = this.editor.getValue();
+		if (text.substring(from, from + this.original.length) !== this.original) {
+			// The note was edited meanwhile; find the original text again if it's unambiguous
+			from = text.indexOf(this.original);
+			if (from === -1 || text.indexOf(this.original, from + 1) !== -1) {
+				new Notice('The selected text changed while the rewrite was shown, so it was not replaced.');
+				return;
+			}
+		}
+		this.editor.replaceRange(
+			this.rewrite,
+			this.editor.offsetToPos(from),
+			this.editor.offsetToPos(from + this.original.length)
+		);
+		this.close();
+	}
+
+	private setStatus(text: string, isError = false): void {
+		this.statusEl?.setText(text);
+		this.statusEl?.toggleClass('snc-rewrite-error', isError);
+	}
+
+	private requestRender(): void {
+		if (this.renderTimer === null) {
+			this.renderTimer = window.setTimeout(() => {
+				this.renderTimer = null;
+				this.render();
+			}, RENDER_INTERVAL_MS);
+		}
+	}
+
+	private cancelRender(): void {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+			this.renderTimer = null;
+		}
+	}
+
+	/**
+	 * Draws the rewrite: as plain text while it streams, and as a diff against
+	 * the original once it's complete, so the diff is only computed once.
+	 */
+	private render(): void {
+		const diffEl = this.diffEl;
+		if (!diffEl) {
+			return;
+		}
+		diffEl.empty();
+		if (!this.done) {
+			diffEl.setText(this.rewrite);
+			return;
+		}
+		for (const part of diffWords(this.original, this.rewrite)) {
+			diffEl.createSpan({ text: part.text, cls: `snc-diff-${part.type}` });
+		}
+	}
+}
+
+/**
+ * Gives the rewrite the original's leading and trailing whitespace, since
+ * models tend to drop or add it.
+ */
+function keepSurroundingWhitespace(original: string, rewrite: string): string {
+	const leading = original.match(/^\s*/)?.[0] ?? '';
+	const trailing = original.match(/\s*$/)?.[0] ?? '';
+	const trimmed = rewrite.trim();
+	return trimmed ? `${leading}${trimmed}${trailing}` : '';
+}
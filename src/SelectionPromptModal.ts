@@ -0,0 +1,76 @@
+import { App, Modal, Notice, Setting, TextAreaComponent } from 'obsidian';
+import { SelectionChatMode } from './ChatService';
+
+/**
+ * What to do with the answer: insert it below the selection, replace the
+ * selection, or preview the rewrite as a diff before replacing it.
+ */
+export type SelectionAction = SelectionChatMode | 'preview';
+
+/**
+ * Asks for the instruction to send with a selection, and what to do with the answer.
+ */
+export class SelectionPromptModal extends Modal {
+	private onSubmit: (instruction: string, action: SelectionAction) => void;
+	private input: TextAreaComponent | null = null;
+
+	/**
+	 * @param onSubmit Called with the instruction and the chosen action.
+	 */
+	constructor(app: App, onSubmit: (instruction: string, action: SelectionAction) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Ask about selection' });
+		contentEl.createEl('p', {
+			text: 'Only the selected text is sent, with your instruction. Ctrl/Cmd+Enter inserts the answer below the selection.',
+			cls: 'snc-setting-section-description',
+		});
+
+		new Setting(contentEl)
+			.setClass('snc-selection-prompt')
+			.addTextArea(text => {
+				this.input = text;
+				text.setPlaceholder('e.g. Explain this in simpler terms');
+				text.inputEl.rows = 4;
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter' && (evt.ctrlKey || evt.metaKey)) {
+						evt.preventDefault();
+						this.submit('insert');
+					}
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Preview rewrite')
+				.onClick(() => this.submit('preview')))
+			.addButton(button => button
+				.setButtonText('Replace selection')
+				.onClick(() => this.submit('replace')))
+			.addButton(button => button
+				.setButtonText('Insert below')
+				.setCta()
+				.onClick(() => this.submit('insert')));
+
+		window.setTimeout(() => this.input?.inputEl.focus(), 0);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private submit(action: SelectionAction): void {
+		const instruction = this.input?.getValue().trim() ?? '';
+		if (!instruction) {
+			new Notice('Enter an instruction first.');
+			return;
+		}
+		this.close();
+		this.onSubmit(instruction, action);
+	}
+}
@@ -1,22 +1,26 @@
 import { App, PluginSettingTab, Setting, Notice, DropdownComponent, moment } from 'obsidian';
 import SimpleNoteChatPlugin from './main';
-import { OpenRouterService, OpenRouterModel, FormattedModelInfo, ModelSortOption } from './OpenRouterService';
-import { PluginSettings, ReasoningEffort } from './types';
+import { ModelInfo } from './ChatProvider';
+import { ProviderRegistry, FormattedModelInfo, ModelSortOption } from './ProviderRegistry';
+import { PluginSettings, CustomProviderSettings, CustomCommandPhrase, CustomPhraseAction, ReasoningEffort, ChatReasoningEffort, ContextOverflowStrategy } from './types';
 import { log, initializeLogger } from './utils/logger';
+import { showErrorNotice } from './ErrorNotice';
 import {
 	DEFAULT_ARCHIVE_FOLDER,
 	DEFAULT_NN_TITLE_FORMAT,
 	CHAT_COMMAND_DEFAULT,
 	ARCHIVE_COMMAND_DEFAULT,
 	NEW_CHAT_COMMAND_DEFAULT,
-	MODEL_COMMAND_DEFAULT
+	MODEL_COMMAND_DEFAULT,
+	REGENERATE_COMMAND_DEFAULT,
+	CONTINUE_COMMAND_DEFAULT
 } from './constants';
 import { LogLevel } from './types'; // Import LogLevel
 
 export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 	plugin: SimpleNoteChatPlugin;
-	openRouterService: OpenRouterService;
-	private availableModels: OpenRouterModel[] = [];
+	providerRegistry: ProviderRegistry;
+	private availableModels: ModelInfo[] = [];
 	private modelDropdown: DropdownComponent | null = null;
 	private llmModelDropdown: DropdownComponent | null = null;
 	private newNotePreviewEl: HTMLElement | null = null;
@@ -24,7 +28,7 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 	constructor(app: App, plugin: SimpleNoteChatPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
-		this.openRouterService = plugin.openRouterService;
+		this.providerRegistry = plugin.providerRegistry;
 	}
 
 	display(): void {
@@ -58,13 +62,28 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 				text.inputEl.setAttribute('type', 'password');
 			});
 
+		new Setting(containerEl)
+			.setName('Other providers')
+			.setDesc('Add any server with an OpenAI-compatible API: Ollama (http://localhost:11434/v1), llama.cpp, LM Studio, or a provider\'s own API such as Anthropic (https://api.anthropic.com/v1). Their models appear in the model lists as "<name>::<model>".')
+			.addButton(button => button
+				.setButtonText('Add provider')
+				.onClick(async () => {
+					const newProvider: CustomProviderSettings = { id: '', baseUrl: '', apiKey: '', models: '' };
+					this.plugin.settings.customProviders = [...this.plugin.settings.customProviders, newProvider];
+					await this.plugin.saveSettings();
+					this.renderCustomProviders(providersContainer);
+				}));
+
+		const providersContainer = containerEl.createDiv('snc-custom-providers');
+		this.renderCustomProviders(providersContainer);
+
 		// ========== MODEL MANAGEMENT ==========
 		new Setting(containerEl).setName('Model management').setHeading();
 		containerEl.createEl('p', { text: 'Configure model selection and sorting options.', cls: 'snc-setting-section-description' });
 
 		new Setting(containerEl)
 			.setName('Model sorting')
-			.setDesc('Choose how to sort the OpenRouter model lists in the dropdowns below.')
+			.setDesc('Choose how to sort the model lists in the dropdowns below. Price sorting only applies to models that report pricing.')
 			.addDropdown(dropdown => {
 				// Add options based on the ModelSortOption enum
 				dropdown
@@ -86,7 +105,7 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 
 		const modelSetting = new Setting(containerEl)
 			.setName('Chat model')
-			.setDesc('Select the AI model to use for new chats.');
+			.setDesc('Select the default AI model for chats. A note can use a different model by setting "model" in its frontmatter (the change model phrase can do this for you).');
 
 		modelSetting.addDropdown(dropdown => {
 			this.modelDropdown = dropdown;
@@ -98,9 +117,80 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 			});
 		});
 
+		new Setting(containerEl)
+			.setName('Comparison models')
+			.setDesc('Comma-separated model IDs for the "Ask several models (compare)" command, e.g. openai/gpt-4o, anthropic/claude-3.5-sonnet. A note can compare others by listing them in a "compare-models" frontmatter property.')
+			.addText(text => text
+				.setPlaceholder('openai/gpt-4o, anthropic/claude-3.5-sonnet')
+				.setValue(this.plugin.settings.compareModels)
+				.onChange(async (value) => {
+					this.plugin.settings.compareModels = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fallback models')
+			.setDesc('Comma-separated model IDs to try, in order, when a chat\'s model keeps failing with a temporary error (rate limited, overloaded, or down). A note can use its own list in a "fallback-models" frontmatter property.')
+			.addText(text => text
+				.setPlaceholder('openai/gpt-4o-mini, anthropic/claude-3.5-haiku')
+				.setValue(this.plugin.settings.fallbackModels)
+				.onChange(async (value) => {
+					this.plugin.settings.fallbackModels = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How many times to retry a request that fails with a temporary error before giving up (or moving on to a fallback model). 0 turns retrying off.')
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(String(this.plugin.settings.maxRetries))
+				.onChange(async (value) => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.maxRetries = numValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number (0 or greater).');
+						text.setValue(String(this.plugin.settings.maxRetries));
+					}
+				}))
+			.then(setting => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) {
+					inputEl.setAttribute('type', 'number');
+					inputEl.setAttribute('min', '0');
+				}
+			});
+
+		new Setting(containerEl)
+			.setName('Retry delay')
+			.setDesc('Seconds to wait before the first retry; the wait doubles with each retry. A provider asking to wait longer (with Retry-After) is honoured, up to 30 seconds.')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.retryInitialDelay))
+				.onChange(async (value) => {
+					const floatValue = parseFloat(value);
+					if (!isNaN(floatValue) && floatValue >= 0) {
+						this.plugin.settings.retryInitialDelay = floatValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number (e.g., 1).');
+						text.setValue(String(this.plugin.settings.retryInitialDelay));
+					}
+				}))
+			.then(setting => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) {
+					inputEl.setAttribute('type', 'number');
+					inputEl.setAttribute('step', '0.5');
+					inputEl.setAttribute('min', '0');
+				}
+			});
+
 		new Setting(containerEl)
 		.setName('Refresh model list')
-		.setDesc('Fetch the latest available models from OpenRouter. The list also refreshes when the plugin first starts with Obsidian and when this settings tab is opened (at most once every 24 hours); so the list should stay pretty current on its own.')
+		.setDesc('Fetch the latest available models from OpenRouter and your other providers. The list also refreshes when the plugin first starts with Obsidian and when this settings tab is opened (at most once every 24 hours); so the list should stay pretty current on its own.')
 		.addButton(button => button
 			.setButtonText('Refresh models')
 			.setCta()
@@ -108,9 +198,218 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 				await this.fetchAndStoreModels(true, true);
 			}));
 
+		// ========== SYSTEM PROMPT ==========
+		new Setting(containerEl).setName('System prompt').setHeading();
+		containerEl.createEl('p', { text: 'Standing instructions sent to the model before the conversation. A note can use its own prompt by setting "system" in its frontmatter, either as text, a link like [[Prompts/Code reviewer]], or the name of a note in the prompt library folder.', cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('Default system prompt')
+			.setDesc('Used for notes without their own "system" property. Accepts the same forms as the frontmatter property. Leave empty to send no system prompt.')
+			.addTextArea(text => text
+				.setPlaceholder('You are a concise, helpful assistant.')
+				.setValue(this.plugin.settings.systemPrompt)
+				.onChange(async (value) => {
+					this.plugin.settings.systemPrompt = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Prompt library folder')
+			.setDesc('Folder of notes that can be referenced by name as a system prompt (e.g. "system: Code reviewer" uses "Prompts/Code reviewer.md"). Leave empty to disable lookups by name.')
+			.addText(text => text
+				.setPlaceholder('e.g., Prompts/')
+				.setValue(this.plugin.settings.systemPromptFolder)
+				.onChange(async (value) => {
+					const trimmedValue = value.trim();
+					if (this.plugin.settings.systemPromptFolder !== trimmedValue) {
+						this.plugin.settings.systemPromptFolder = trimmedValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// ========== LINKED NOTES ==========
+		new Setting(containerEl).setName('Linked notes and images').setHeading();
+		containerEl.createEl('p', { text: 'Include the content of notes referenced with [[links]] or ![[embeds]], and embedded images, in your messages so the model can read them.', cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('Include linked notes')
+			.setDesc('When enabled, linked notes are added to the message that links to them, clearly labeled with their path.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.expandLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.expandLinks = value;
+					await this.plugin.saveSettings();
+					new Notice(`Linked note inclusion ${value ? 'enabled' : 'disabled'}.`);
+					linkSettingsContainer.toggleClass('snc-hidden', !value);
+				}));
+
+		const linkSettingsContainer = containerEl.createDiv('link-expansion-settings');
+
+		new Setting(linkSettingsContainer)
+			.setName('Link depth')
+			.setDesc('How many levels of links to follow. 1 includes only notes linked from the chat; 2 also includes notes linked from those notes, and so on.')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.linkExpansionDepth))
+				.onChange(async (value) => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue) && numValue >= 1) {
+						this.plugin.settings.linkExpansionDepth = numValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number (1 or greater).');
+						text.setValue(String(this.plugin.settings.linkExpansionDepth));
+					}
+				}))
+			.then(setting => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) {
+					inputEl.setAttribute('type', 'number');
+					inputEl.setAttribute('min', '1');
+				}
+			});
+
+		new Setting(linkSettingsContainer)
+			.setName('Linked note size limit')
+			.setDesc('The maximum number of characters of linked note content added to a chat in total. Content past this limit is cut off, which keeps long or heavily linked notes from using up the context window.')
+			.addText(text => text
+				.setPlaceholder('20000')
+				.setValue(String(this.plugin.settings.linkExpansionMaxChars))
+				.onChange(async (value) => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue) && numValue >= 1) {
+						this.plugin.settings.linkExpansionMaxChars = numValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number (1 or greater).');
+						text.setValue(String(this.plugin.settings.linkExpansionMaxChars));
+					}
+				}))
+			.then(setting => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) {
+					inputEl.setAttribute('type', 'number');
+					inputEl.setAttribute('min', '1');
+				}
+			});
+
+		linkSettingsContainer.toggleClass('snc-hidden', !this.plugin.settings.expandLinks);
+
+		new Setting(containerEl)
+			.setName('Send embedded images')
+			.setDesc('Send images embedded in your messages (like ![[diagram.png]]) to models that accept image input. Supports PNG, JPEG, GIF, and WebP. If the chat model only reads text, you will be warned and the images are left out.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.attachImages)
+				.onChange(async (value) => {
+					this.plugin.settings.attachImages = value;
+					await this.plugin.saveSettings();
+					new Notice(`Embedded images ${value ? 'enabled' : 'disabled'}.`);
+				}));
+
+		// ========== CONTEXT WINDOW ==========
+		new Setting(containerEl).setName('Context window').setHeading();
+		containerEl.createEl('p', { text: `Before sending, the chat's size is estimated and compared with the model's context window, so long notes don't fail with an unclear error from the provider.`, cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('When a chat is too long')
+			.setDesc('Refuse shows a notice and sends nothing. Drop oldest leaves out the oldest messages until the chat fits. Summarize asks the chat model to condense the oldest messages into a summary (an extra request).')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('refuse', 'Refuse with a notice')
+					.addOption('drop-oldest', 'Drop oldest messages')
+					.addOption('summarize', 'Summarize oldest messages')
+					.setValue(this.plugin.settings.contextOverflowStrategy)
+					.onChange(async (value) => {
+						this.plugin.settings.contextOverflowStrategy = value as ContextOverflowStrategy;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Response token reserve')
+			.setDesc(`How many tokens of the context window to keep free for the model's response. Capped by the provider's own response limit for the model.`)
+			.addText(text => text
+				.setPlaceholder('4096')
+				.setValue(String(this.plugin.settings.responseTokenReserve))
+				.onChange(async (value) => {
+					const numValue = parseInt(value, 10);
+					if (!isNaN(numValue) && numValue >= 0) {
+						this.plugin.settings.responseTokenReserve = numValue;
+						await this.plugin.saveSettings();
+					} else {
+						new Notice('Please enter a valid number (0 or greater).');
+						text.setValue(String(this.plugin.settings.responseTokenReserve));
+					}
+				}))
+			.then(setting => {
+				const inputEl = setting.controlEl.querySelector('input');
+				if (inputEl) {
+					inputEl.setAttribute('type', 'number');
+					inputEl.setAttribute('min', '0');
+				}
+			});
+
+		// ========== REASONING ==========
+		new Setting(containerEl).setName('Reasoning').setHeading();
+		containerEl.createEl('p', { text: 'Configure how reasoning-capable models think before answering in chats. A note can override the effort by setting "reasoning" in its frontmatter (e.g. "reasoning: high").', cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('Chat reasoning effort')
+			.setDesc(`How much internal reasoning the model may use before answering. 'Model default' leaves it up to the model. Only matters for reasoning-capable models.`)
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('default', 'Model default')
+					.addOption('none', 'None')
+					.addOption('minimal', 'Minimal')
+					.addOption('low', 'Low')
+					.addOption('medium', 'Medium')
+					.addOption('high', 'High')
+					.addOption('xhigh', 'Extra high')
+					.addOption('max', 'Max')
+					.setValue(this.plugin.settings.chatReasoningEffort)
+					.onChange(async (value) => {
+						this.plugin.settings.chatReasoningEffort = value as ChatReasoningEffort;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Show reasoning in notes')
+			.setDesc('Write the model\'s reasoning into the note as a collapsed "thinking" callout above the answer. The callout is never sent back to the model.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showChatReasoning)
+				.onChange(async (value) => {
+					this.plugin.settings.showChatReasoning = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// ========== USAGE ==========
+		new Setting(containerEl).setName('Usage').setHeading();
+		containerEl.createEl('p', { text: 'Keep track of how many tokens each response used and what it cost. Use the "Open chat spend summary" command to see totals across your vault.', cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('Show usage below responses')
+			.setDesc('Add a small line after each response with the model, token counts, and cost. The line is never sent back to the model.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showUsageFooter)
+				.onChange(async (value) => {
+					this.plugin.settings.showUsageFooter = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Record usage in frontmatter')
+			.setDesc('Keep running totals of cost and tokens in each chat note\'s frontmatter. These totals feed the chat spend summary.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.recordUsageInFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.recordUsageInFrontmatter = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// ========== COMMAND PHRASES ==========
 		new Setting(containerEl).setName('Command phrases').setHeading();
-		containerEl.createEl('p', { text: 'The plugin will look for these command phrases in order to take action. Phrases are recognzied when entered on their own line, and will activate after you hit the <enter> key. Deleting the phrase will disable it from being recognized, although the hotkey (if set) will still work.', cls: 'snc-setting-section-description' });
+		containerEl.createEl('p', { text: 'The plugin will look for these command phrases in order to take action. Phrases are recognzied when entered on their own line, and will activate after you hit the <enter> key. Deleting the phrase will disable it from being recognized, although the hotkey (if set) will still work. Some phrases take an argument after a space, e.g. a model for the chat phrase or a folder for the archive phrase.', cls: 'snc-setting-section-description' });
 
 		new Setting(containerEl)
 			.setName('Chat phrase')
@@ -137,6 +436,40 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Regenerate phrase')
+			.setDesc(`Typed on the line after a response, this removes the response and asks the model again. Use the "Regenerate last response with another model" command to pick a different model for the new answer. Default: (${REGENERATE_COMMAND_DEFAULT}).`)
+			.addText(t => t
+				.setPlaceholder(REGENERATE_COMMAND_DEFAULT)
+				.setValue(this.plugin.settings.regenerateCommandPhrase)
+				.onChange(async (v) => {
+					const trimmed = v.trim();
+					this.plugin.settings.regenerateCommandPhrase = trimmed;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Keep earlier responses as variants')
+			.setDesc('When regenerating, keep the earlier answers as collapsed "variant" callouts below the new one. Use the "Show next response variant" command to switch between them; only the shown answer is sent to the model.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.keepResponseVariants)
+				.onChange(async (value) => {
+					this.plugin.settings.keepResponseVariants = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Continue phrase')
+			.setDesc(`Typed on the line after a response that was cut off at the token limit, this asks the model to pick up where it stopped. The rest of the answer is added to the same response. Default: (${CONTINUE_COMMAND_DEFAULT}).`)
+			.addText(t => t
+				.setPlaceholder(CONTINUE_COMMAND_DEFAULT)
+				.setValue(this.plugin.settings.continueCommandPhrase)
+				.onChange(async (v) => {
+					const trimmed = v.trim();
+					this.plugin.settings.continueCommandPhrase = trimmed;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 		.setName('New chat phrase')
 		.setDesc(`This quickly creates a new chat note, for when you want to start a new chat from anywhere in your vault. By default, the chat note is created in the archive directory with the current date and time. It's behavior can be configured in the New note settings section below. Default: (${NEW_CHAT_COMMAND_DEFAULT}).`)
@@ -165,6 +498,39 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 					}
 				}));
 
+		new Setting(containerEl)
+			.setName('Custom phrases')
+			.setDesc('Add your own phrases, e.g. "ccs" to chat with a cheap summarizer model, without changing the default model. A custom phrase is ignored if a phrase above already uses it.')
+			.addButton(button => button
+				.setButtonText('Add phrase')
+				.onClick(async () => {
+					const newPhrase: CustomCommandPhrase = { phrase: '', action: 'chat', model: '', systemPrompt: '', template: '', folder: '' };
+					this.plugin.settings.customCommandPhrases = [...this.plugin.settings.customCommandPhrases, newPhrase];
+					await this.plugin.saveSettings();
+					this.renderCustomPhrases(phrasesContainer);
+				}));
+
+		const phrasesContainer = containerEl.createDiv('snc-custom-phrases');
+		this.renderCustomPhrases(phrasesContainer);
+
+		// ========== PROMPT TEMPLATES ==========
+		new Setting(containerEl).setName('Prompt templates').setHeading();
+		containerEl.createEl('p', { text: 'Notes in the templates folder are reusable prompts. They can use the variables {{selection}}, {{note}}, {{date}} (or {{date:YYYY-MM-DD}}), {{clipboard}}, and {{ask:Question}}, which asks you when the template is used. Give a template a "phrase" property to use it as a command phrase, or "command: true" to add it to the command palette.', cls: 'snc-setting-section-description' });
+
+		new Setting(containerEl)
+			.setName('Templates folder')
+			.setDesc('Folder of prompt template notes. Leave empty to turn templates off.')
+			.addText(text => text
+				.setPlaceholder('e.g., Templates/Prompts')
+				.setValue(this.plugin.settings.templatesFolder)
+				.onChange(async (value) => {
+					const trimmedValue = value.trim();
+					if (this.plugin.settings.templatesFolder !== trimmedValue) {
+						this.plugin.settings.templatesFolder = trimmedValue;
+						await this.plugin.saveSettings();
+					}
+				}));
+
 		// ========== BEHAVIOR SETTINGS ==========
 		new Setting(containerEl).setName('Behavior').setHeading();
 		containerEl.createEl('p', { text: 'Configure how the plugin reacts to user input.', cls: 'snc-setting-section-description' });
@@ -173,7 +539,7 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Enable spacebar command detection')
-			.setDesc('Detect command phrases after pressing spacebar. Defaults to 0.5 seconds wait before acting (configurable below).')
+			.setDesc('Detect command phrases after pressing spacebar. Defaults to 0.5 seconds wait before acting (configurable below). Phrases with an argument still need the Enter key.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableSpacebarDetection)
 				.onChange(async (value) => {
@@ -526,6 +892,171 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 
 
 
+	/**
+	 * Renders the settings for each custom OpenAI-compatible provider.
+	 * @param container The element to (re)render the provider list into
+	 */
+	private renderCustomProviders(container: HTMLElement): void {
+		container.empty();
+
+		this.plugin.settings.customProviders.forEach((provider, index) => {
+			const providerEl = container.createDiv('snc-custom-provider');
+
+			new Setting(providerEl)
+				.setName('Name')
+				.setDesc('Short name used to prefix this provider\'s model IDs, e.g. "ollama".')
+				.addText(text => text
+					.setPlaceholder('ollama')
+					.setValue(provider.id)
+					.onChange(async (value) => {
+						// The separator can't appear in the name, or model IDs become ambiguous
+						provider.id = value.trim().replace(/:/g, '');
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove provider')
+					.onClick(async () => {
+						this.plugin.settings.customProviders = this.plugin.settings.customProviders.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.renderCustomProviders(container);
+						await this.fetchAndStoreModels(false);
+					}));
+
+			new Setting(providerEl)
+				.setName('Base URL')
+				.setDesc('The API root that serves /models and /chat/completions.')
+				.addText(text => text
+					.setPlaceholder('http://localhost:11434/v1')
+					.setValue(provider.baseUrl)
+					.onChange(async (value) => {
+						provider.baseUrl = value.trim();
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(providerEl)
+				.setName('API key')
+				.setDesc('Leave empty for local servers that don\'t need one.')
+				.addText(text => {
+					text
+						.setValue(provider.apiKey)
+						.onChange(async (value) => {
+							provider.apiKey = value.trim();
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.setAttribute('type', 'password');
+				});
+
+			new Setting(providerEl)
+				.setName('Models')
+				.setDesc('Comma-separated model IDs to offer. Leave empty to load the list from the server; fill it in for servers that don\'t list their models.')
+				.addText(text => text
+					.setPlaceholder('e.g., llama3.1:8b, qwen3:14b')
+					.setValue(provider.models)
+					.onChange(async (value) => {
+						provider.models = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+	}
+
+	/**
+	 * Renders the settings for each custom command phrase. Each action shows only its own options.
+	 * @param container The element to (re)render the phrase list into
+	 */
+	private renderCustomPhrases(container: HTMLElement): void {
+		container.empty();
+
+		this.plugin.settings.customCommandPhrases.forEach((custom, index) => {
+			const phraseEl = container.createDiv('snc-custom-phrase');
+
+			new Setting(phraseEl)
+				.setName('Phrase')
+				.setDesc('Type it on its own line to run the action.')
+				.addText(text => text
+					.setPlaceholder('ccs')
+					.setValue(custom.phrase)
+					.onChange(async (value) => {
+						custom.phrase = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('chat', 'Chat')
+					.addOption('template', 'Use prompt template')
+					.addOption('archive', 'Archive')
+					.setValue(custom.action)
+					.onChange(async (value) => {
+						custom.action = value as CustomPhraseAction;
+						await this.plugin.saveSettings();
+						this.renderCustomPhrases(container);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove phrase')
+					.onClick(async () => {
+						this.plugin.settings.customCommandPhrases = this.plugin.settings.customCommandPhrases.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.renderCustomPhrases(container);
+					}));
+
+			if (custom.action === 'template') {
+				const templates = this.plugin.templateService.getTemplates(this.plugin.settings);
+				new Setting(phraseEl)
+					.setName('Template')
+					.setDesc(templates.length > 0 ? 'The prompt template to use.' : 'No templates found; set the templates folder under "Prompt templates" below.')
+					.addDropdown(dropdown => {
+						dropdown.addOption('', 'Choose a template');
+						templates.forEach(template => dropdown.addOption(template.name, template.name));
+						if (custom.template && !templates.some(template => template.name === custom.template)) {
+							dropdown.addOption(custom.template, `${custom.template} (not found)`);
+						}
+						dropdown
+							.setValue(custom.template)
+							.onChange(async (value) => {
+								custom.template = value;
+								await this.plugin.saveSettings();
+							});
+					});
+			}
+
+			if (custom.action === 'chat' || custom.action === 'template') {
+				new Setting(phraseEl)
+					.setName('Model')
+					.setDesc('Model ID to chat with. Leave empty to use the note\'s model.')
+					.addText(text => text
+						.setPlaceholder('e.g., openai/gpt-4o-mini')
+						.setValue(custom.model)
+						.onChange(async (value) => {
+							custom.model = value.trim();
+							await this.plugin.saveSettings();
+						}));
+
+				new Setting(phraseEl)
+					.setName('System prompt')
+					.setDesc('Text, a [[link]] to a note, or the name of a prompt library note. Leave empty to use the note\'s system prompt.')
+					.addText(text => text
+						.setValue(custom.systemPrompt)
+						.onChange(async (value) => {
+							custom.systemPrompt = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+
+			if (custom.action === 'archive') {
+				new Setting(phraseEl)
+					.setName('Folder')
+					.setDesc('Folder to archive the note to. Leave empty to use the archive folder set below.')
+					.addText(text => text
+						.setPlaceholder(this.plugin.settings.archiveFolderName)
+						.setValue(custom.folder)
+						.onChange(async (value) => {
+							custom.folder = value.trim();
+							await this.plugin.saveSettings();
+						}));
+			}
+		});
+	}
+
 	/**
 	 * @param dropdown The DropdownComponent instance
 	 * @param formattedModels Array of formatted models to populate with
@@ -548,8 +1079,8 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 		const currentSelectedValue = dropdown.getValue();
 		dropdown.selectEl.empty();
 
-		if (!this.plugin.settings.apiKey) {
-			dropdown.addOption('', 'Enter API key to load models'); // Assuming noApiKeyText was 'Enter API Key to load models'
+		if (!this.providerRegistry.hasConfiguredProvider()) {
+			dropdown.addOption('', noApiKeyText);
 			dropdown.setDisabled(true);
 			dropdown.setValue('');
 			return;
@@ -558,7 +1089,7 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 		dropdown.setDisabled(false);
 
 		if (formattedModels.length === 0) {
-			dropdown.addOption('', 'No models found or API key invalid');
+			dropdown.addOption('', 'No models found; check your API keys and providers');
 			dropdown.setValue('');
 			return;
 		}
@@ -667,20 +1198,20 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 	 */
 	private populateModelDropdowns(): void {
 		let formattedModels: FormattedModelInfo[] = [];
-		if (this.plugin.settings.apiKey && this.availableModels.length > 0) {
+		if (this.availableModels.length > 0) {
 			try {
-				const sortedModels = this.openRouterService.sortModels(
+				const sortedModels = this.providerRegistry.sortModels(
 					this.availableModels,
 					this.plugin.settings.modelSortOrder as ModelSortOption
 				);
-				formattedModels = this.openRouterService.getFormattedModels(sortedModels);
+				formattedModels = this.providerRegistry.getFormattedModels(sortedModels);
 
 			} catch (error) {
 				log.error("SettingsTab: Error sorting or formatting models:", error);
 				new Notice("Error preparing model list. Check console.");
 				// Format unsorted models as fallback
 				try {
-					formattedModels = this.openRouterService.getFormattedModels(this.availableModels);
+					formattedModels = this.providerRegistry.getFormattedModels(this.availableModels);
 				} catch (formatError) {
 					log.error("SettingsTab: Fallback formatting failed:", formatError);
 					formattedModels = []; // Ensure it's an empty array on complete failure
@@ -692,28 +1223,28 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 			this.modelDropdown,
 			formattedModels,
 			'defaultModel',
-			'Enter API key to load models',
+			'Add an API key or provider to load models',
 			'-- Select a model --'
 		);
 		this.populateModelDropdown(
 			this.llmModelDropdown,
 			formattedModels,
 			'llmRenameModel',
-			'Enter API key to load models',
+			'Add an API key or provider to load models',
 			'Use default chat model'
 		);
 	}
 
 
 	/**
-	 * Fetches models from OpenRouter and updates dropdowns
+	 * Fetches models from all configured providers and updates dropdowns
 	 * @param showNotices If true, displays loading and result notices
 	 * @param forceRefresh If true, bypasses the service's model cache
 	 */
 	private async fetchAndStoreModels(showNotices: boolean = true, forceRefresh: boolean = false): Promise<void> {
-		if (!this.plugin.settings.apiKey) {
+		if (!this.providerRegistry.hasConfiguredProvider()) {
 			if (showNotices) {
-				new Notice('Please enter your OpenRouter API key first.');
+				new Notice('Please enter your OpenRouter API key or add a provider first.');
 			}
 			this.availableModels = [];
 			this.populateModelDropdowns();
@@ -722,19 +1253,15 @@ export class SimpleNoteChatSettingsTab extends PluginSettingTab {
 
 		let loadingNotice;
 		if (showNotices) {
-			loadingNotice = new Notice('Fetching models from OpenRouter...', 0);
+			loadingNotice = new Notice('Fetching models...', 0);
 		}
 
 		try {
-			this.availableModels = await this.openRouterService.fetchModels(
-				this.plugin.settings.apiKey,
-				forceRefresh
-			);
+			this.availableModels = await this.providerRegistry.fetchModels(forceRefresh);
 		} catch (error) {
 			log.error('SettingsTab: Failed to fetch models:', error);
 			this.availableModels = [];
-			const message = error instanceof Error ? error.message : String(error);
-			new Notice(message);
+			showErrorNotice(this.plugin, error, 'Could not load models');
 		}
 		this.populateModelDropdowns();
 
@@ -0,0 +1,248 @@
+import { App, Editor, MarkdownView, TFile } from 'obsidian';
+import { Annotation, Text, Transaction } from '@codemirror/state';
+import { EditorView, ViewUpdate } from '@codemirror/view';
+import { mapOffsetThroughEdits } from './utils/textEdits';
+import { log } from './utils/logger';
+
+/**
+ * An offset in the note that follows edits made around it, by the user or
+ * by the streams writing into the note.
+ */
+export interface TrackedOffset {
+    offset: number;
+    stickToEnd: boolean; // Moves past text inserted exactly at the offset (false: stays in front of it)
+}
+
+// Marks the transactions a target dispatches itself, whose offsets it maps as it writes
+const writtenBy = Annotation.define<StreamTarget>();
+
+// The targets following edits in each editor view (see StreamTarget.tracking)
+const viewTargets = new WeakMap<EditorView, Set<StreamTarget>>();
+
+/**
+ * The note a response streams into. Writes go to the editor the chat started
+ * in while it shows the note; once the note is closed (or the tab switches to
+ * another note), the rest is written to the file through the vault.
+ *
+ * Offsets handed out by track() are kept up to date through every edit, so
+ * writers keep their place while the user types elsewhere in the note. In the
+ * editor they are mapped through each transaction's changes; this needs the
+ * StreamTarget.tracking extension, which the plugin registers.
+ */
+export class StreamTarget {
+    /**
+     * Editor extension that passes every edit to the targets writing into that editor.
+     */
+    static readonly tracking = EditorView.updateListener.of((update: ViewUpdate) => {
+        if (update.docChanged) {
+            viewTargets.get(update.view)?.forEach(target => target.followUpdate(update));
+        }
+    });
+
+    private app: App;
+    private file: TFile;
+    private editor: Editor | null;     // Null once writing has moved to the file
+    private view: EditorView | null;   // The editor's view; null once writing has moved to the file
+    private doc: Text | null = null;   // The editor's document as of the last edit followed
+    private text = '';                 // Once writing has moved to the file: the note as of the last write
+    private released = false;
+    private tracked = new Set<TrackedOffset>();
+    private fileWrites: Promise<void> = Promise.resolve();
+    private fileWriteError: unknown = null;
+
+    constructor(app: App, file: TFile, editor: Editor) {
+        this.app = app;
+        this.file = file;
+        this.editor = editor;
+        this.view = getEditorView(editor);
+        if (this.view) {
+            this.doc = this.view.state.doc;
+            let targets = viewTargets.get(this.view);
+            if (!targets) {
+                targets = new Set();
+                viewTargets.set(this.view, targets);
+            }
+            targets.add(this);
+        } else {
+            log.warn(`No editor view found for ${file.path}; writing the response to the file.`);
+            this.editor = null;
+            this.text = editor.getValue();
+        }
+    }
+
+    /**
+     * @returns The editor showing the note, or null if writing has moved to the file.
+     */
+    getEditor(): Editor | null {
+        this.sync();
+        return this.editor;
+    }
+
+    /**
+     * @returns The note's current text.
+     */
+    getText(): string {
+        this.sync();
+        return this.view ? this.view.state.doc.toString() : this.text;
+    }
+
+    /**
+     * Starts following an offset through edits to the note.
+     * @param stickToEnd Whether text inserted exactly at the offset goes in front of it.
+     */
+    track(offset: number, stickToEnd = true): TrackedOffset {
+        this.sync();
+        const tracked = { offset, stickToEnd };
+        this.tracked.add(tracked);
+        return tracked;
+    }
+
+    /**
+     * Replaces a range of the note. Edits stay out of the undo history unless
+     * asked for, so text that is still streaming can't be half undone.
+     * @throws The error from an earlier write to the file, if one failed.
+     */
+    replace(text: string, from: number, to: number = from, addToHistory = false): void {
+        this.sync();
+        this.throwFileWriteError();
+
+        if (this.view) {
+            const annotations: Annotation<unknown>[] = [writtenBy.of(this)];
+            if (!addToHistory) {
+                annotations.push(Transaction.addToHistory.of(false));
+            }
+            this.view.dispatch({ changes: { from, to, insert: text }, annotations });
+        } else {
+            this.writeToFile(text, from, to, this.text);
+            this.text = this.text.substring(0, from) + text + this.text.substring(to);
+        }
+
+        const delta = text.length - (to - from);
+        for (const tracked of this.tracked) {
+            if (tracked.offset < from) {
+                continue;
+            }
+            if (tracked.offset > to || (tracked.offset === to && from < to)) {
+                tracked.offset += delta;
+            } else {
+                // At the insertion point, or inside the replaced text
+                tracked.offset = tracked.stickToEnd ? from + text.length : from;
+            }
+        }
+    }
+
+    /**
+     * Records a range written outside the undo history as one undo step, by
+     * swapping it for a single undoable insertion of the same text. Does
+     * nothing once writing has moved to the file.
+     * @param replaced Text the range was written in place of (also outside the
+     *        history), which undoing the step brings back.
+     */
+    addToHistory(from: TrackedOffset, to: TrackedOffset, replaced = ''): void {
+        this.sync();
+        if (!this.view || to.offset < from.offset || (to.offset === from.offset && !replaced)) {
+            return;
+        }
+        const start = from.offset;
+        const text = this.view.state.sliceDoc(start, to.offset);
+        this.replace(replaced, start, to.offset);
+        this.replace(text, start, start + replaced.length, true);
+    }
+
+    /**
+     * Waits for writes to the file to finish.
+     * @throws The error from a failed write, if any.
+     */
+    async whenWritten(): Promise<void> {
+        await this.fileWrites;
+        this.throwFileWriteError();
+    }
+
+    /**
+     * Stops following edits in the editor, once nothing more will be written.
+     * Tracked offsets are no longer kept up to date afterwards.
+     */
+    release(): void {
+        this.released = true;
+        if (this.view) {
+            viewTargets.get(this.view)?.delete(this);
+        }
+    }
+
+    /**
+     * Moves the tracked offsets through an editor update's changes, except
+     * those this target wrote itself, which replace() has already accounted for.
+     */
+    private followUpdate(update: ViewUpdate): void {
+        if (!this.view || !this.editor || update.startState.doc !== this.doc || !this.isShowingNote(this.editor)) {
+            // The editor was switched to another note; stay with the note as it was
+            this.moveToFile();
+            return;
+        }
+        for (const transaction of update.transactions) {
+            if (!transaction.docChanged || transaction.annotation(writtenBy) === this) {
+                continue;
+            }
+            for (const tracked of this.tracked) {
+                tracked.offset = transaction.changes.mapPos(tracked.offset, tracked.stickToEnd ? 1 : -1);
+            }
+        }
+        this.doc = update.state.doc;
+    }
+
+    /**
+     * Checks that the editor still shows the note; edits there are followed as
+     * they happen (see followUpdate). Once writing has moved to the file, the
+     * file's own changes are instead accounted for as each write is applied.
+     */
+    private sync(): void {
+        if (this.editor && ((!this.released && this.view?.state.doc !== this.doc) || !this.isShowingNote(this.editor))) {
+            this.moveToFile();
+        }
+    }
+
+    private moveToFile(): void {
+        if (!this.editor) {
+            return;
+        }
+        log.info(`${this.file.path} is no longer open in its editor; writing the rest of the response to the file.`);
+        this.release();
+        this.text = this.doc?.toString() ?? this.editor.getValue();
+        this.editor = null;
+        this.view = null;
+    }
+
+    private isShowingNote(editor: Editor): boolean {
+        return this.app.workspace.getLeavesOfType('markdown').some(leaf =>
+            leaf.view instanceof MarkdownView && leaf.view.editor === editor && leaf.view.file === this.file);
+    }
+
+    /**
+     * Queues a write to the file. Writes apply in order; each maps its range
+     * from the text it was made against to what the file holds by then.
+     */
+    private writeToFile(text: string, from: number, to: number, expected: string): void {
+        this.fileWrites = this.fileWrites
+            .then(() => this.app.vault.process(this.file, (data) => {
+                const start = mapOffsetThroughEdits(expected, data, from);
+                const end = Math.max(start, mapOffsetThroughEdits(expected, data, to));
+                return data.substring(0, start) + text + data.substring(end);
+            }))
+            .then(() => undefined, (error) => {
+                log.error(`Error writing the response to ${this.file.path}:`, error);
+                this.fileWriteError = error;
+            });
+    }
+
+    private throwFileWriteError(): void {
+        if (this.fileWriteError !== null) {
+            const error = this.fileWriteError;
+            this.fileWriteError = null;
+            throw error;
+        }
+    }
+}
+
+function getEditorView(editor: Editor): EditorView | null {
+    return (editor as unknown as { cm?: EditorView }).cm ?? null;
+}
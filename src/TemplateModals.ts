@@ -0,0 +1,94 @@
+import { App, Modal, Setting, SuggestModal, TextComponent } from 'obsidian';
+import type { PromptTemplate } from './TemplateService';
+
+/**
+ * Picks a prompt template to use.
+ */
+export class TemplateSuggestModal extends SuggestModal<PromptTemplate> {
+	private templates: PromptTemplate[];
+	private onChoose: (template: PromptTemplate) => void;
+
+	constructor(app: App, templates: PromptTemplate[], onChoose: (template: PromptTemplate) => void) {
+		super(app);
+		this.templates = templates;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a prompt template');
+		this.emptyStateText = 'No matching templates. Add notes to the templates folder set in the plugin settings.';
+	}
+
+	getSuggestions(query: string): PromptTemplate[] {
+		const lowerQuery = query.toLowerCase();
+		return this.templates.filter(template => template.name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(template: PromptTemplate, el: HTMLElement): void {
+		el.createDiv({ text: template.name });
+		if (template.phrase) {
+			el.createEl('small', { text: `Phrase: ${template.phrase}`, cls: 'snc-suggestion-detail' });
+		}
+	}
+
+	onChooseSuggestion(template: PromptTemplate): void {
+		this.onChoose(template);
+	}
+}
+
+/**
+ * Asks the question of a template's `{{ask:Question}}` variable.
+ */
+export class TemplateQuestionModal extends Modal {
+	private question: string;
+	private input: TextComponent | null = null;
+	private answer: string | null = null;
+	private resolve: ((answer: string | null) => void) | null = null;
+
+	constructor(app: App, question: string) {
+		super(app);
+		this.question = question;
+	}
+
+	/**
+	 * Opens the modal.
+	 * @returns The answer, or null if the modal was closed without one.
+	 */
+	ask(): Promise<string | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: this.question });
+
+		new Setting(contentEl)
+			.addText(text => {
+				this.input = text;
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						this.submit();
+					}
+				});
+			})
+			.addButton(button => button
+				.setButtonText('OK')
+				.setCta()
+				.onClick(() => this.submit()));
+
+		window.setTimeout(() => this.input?.inputEl.focus(), 0);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve?.(this.answer);
+		this.resolve = null;
+	}
+
+	private submit(): void {
+		this.answer = this.input?.getValue() ?? '';
+		this.close();
+	}
+}
@@ -0,0 +1,104 @@
+import { App, Editor, Notice, TAbstractFile, TFile, moment, normalizePath } from 'obsidian';
+import { PluginSettings } from './types';
+import { FRONTMATTER_TEMPLATE_COMMAND_KEY, FRONTMATTER_TEMPLATE_PHRASE_KEY } from './constants';
+import { TemplateQuestionModal } from './TemplateModals';
+import { getFrontmatterString, stripFrontmatter } from './utils/frontmatter';
+import { findTemplateVariables, renderTemplate } from './utils/templates';
+import { log } from './utils/logger';
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * A note in the templates folder, used as a reusable prompt.
+ */
+export interface PromptTemplate {
+    file: TFile;
+    name: string;          // The note's name, shown in commands and the template picker
+    phrase: string | null; // Command phrase that inserts the template, from its `phrase` frontmatter
+    command: boolean;      // Registered as its own palette command (`command: true` in its frontmatter)
+}
+
+/**
+ * Finds prompt templates in the templates folder and fills in their
+ * variables (see utils/templates).
+ */
+export class TemplateService {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Lists the templates in the templates folder (and its subfolders), by name.
+     */
+    getTemplates(settings: PluginSettings): PromptTemplate[] {
+        return this.app.vault.getMarkdownFiles()
+            .filter(file => this.isTemplate(file, settings))
+            .map(file => ({
+                file,
+                name: file.basename,
+                phrase: getFrontmatterString(this.app, file, FRONTMATTER_TEMPLATE_PHRASE_KEY) ?? null,
+                command: this.app.metadataCache.getFileCache(file)?.frontmatter?.[FRONTMATTER_TEMPLATE_COMMAND_KEY] === true,
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * @returns True if the file is (or was, for a deleted file) in the templates folder.
+     */
+    isTemplate(file: TAbstractFile | string, settings: PluginSettings): boolean {
+        const folder = settings.templatesFolder.trim();
+        if (!folder) {
+            return false;
+        }
+        const path = typeof file === 'string' ? file : file.path;
+        return path.startsWith(`${normalizePath(folder)}/`) && path.endsWith('.md');
+    }
+
+    /**
+     * Reads a template and fills in its variables: the editor's selection, the
+     * note's text, the date, the clipboard, and answers to `{{ask:...}}` questions.
+     * @returns The prompt, or null if the user cancelled a question.
+     */
+    async render(template: PromptTemplate, editor: Editor): Promise<string | null> {
+        const text = stripFrontmatter(await this.app.vault.cachedRead(template.file)).trim();
+        const values = new Map<string, string>();
+
+        for (const variable of findTemplateVariables(text)) {
+            switch (variable.name) {
+                case 'selection':
+                    values.set(variable.placeholder, editor.getSelection());
+                    break;
+                case 'note':
+                    values.set(variable.placeholder, stripFrontmatter(editor.getValue()).trim());
+                    break;
+                case 'date':
+                    values.set(variable.placeholder, moment().format(variable.argument ?? DEFAULT_DATE_FORMAT));
+                    break;
+                case 'clipboard':
+                    values.set(variable.placeholder, await this.readClipboard());
+                    break;
+                case 'ask': {
+                    const answer = await new TemplateQuestionModal(this.app, variable.argument ?? 'Value').ask();
+                    if (answer === null) {
+                        return null;
+                    }
+                    values.set(variable.placeholder, answer);
+                    break;
+                }
+            }
+        }
+        return renderTemplate(text, values);
+    }
+
+    private async readClipboard(): Promise<string> {
+        try {
+            return await navigator.clipboard.readText();
+        } catch (error) {
+            log.warn('TemplateService: Could not read the clipboard:', error);
+            new Notice('Could not read the clipboard; {{clipboard}} was left empty.');
+            return '';
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import { ItemView, WorkspaceLeaf, TFile, debounce } from 'obsidian';
+import {
+	FRONTMATTER_COST_KEY,
+	FRONTMATTER_PROMPT_TOKENS_KEY,
+	FRONTMATTER_COMPLETION_TOKENS_KEY
+} from './constants';
+import { formatCost } from './utils/usage';
+
+export const USAGE_SUMMARY_VIEW_TYPE = 'snc-usage-summary';
+
+interface NoteUsage {
+	file: TFile;
+	cost: number;
+	promptTokens: number;
+	completionTokens: number;
+}
+
+interface FolderUsage {
+	folder: string;
+	cost: number;
+	notes: NoteUsage[];
+}
+
+/**
+ * Sidebar view summarizing chat spend across the vault, grouped by folder.
+ * Built from the running usage totals recorded in chat notes' frontmatter.
+ */
+export class UsageSummaryView extends ItemView {
+	// Metadata changes arrive in bursts while chats stream; re-render at most twice a second
+	private requestRender = debounce(() => this.render(), 500, false);
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return USAGE_SUMMARY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Chat spend summary';
+	}
+
+	getIcon(): string {
+		return 'coins';
+	}
+
+	async onOpen(): Promise<void> {
+		this.registerEvent(this.app.metadataCache.on('changed', () => this.requestRender()));
+		this.registerEvent(this.app.vault.on('rename', () => this.requestRender()));
+		this.registerEvent(this.app.vault.on('delete', () => this.requestRender()));
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('snc-usage-summary');
+		contentEl.createEl('h4', { text: 'Chat spend summary' });
+
+		const folders = this.collectUsageByFolder();
+		if (folders.length === 0) {
+			contentEl.createEl('p', {
+				text: 'No recorded usage yet. Enable "Record usage in frontmatter" in the plugin settings; chat notes will then keep running totals that show up here.',
+				cls: 'snc-setting-section-description'
+			});
+			return;
+		}
+
+		const totalCost = folders.reduce((sum, folder) => sum + folder.cost, 0);
+		const noteCount = folders.reduce((sum, folder) => sum + folder.notes.length, 0);
+		contentEl.createEl('p', { text: `Total: ${formatCost(totalCost)} across ${noteCount} note(s)` });
+
+		for (const folder of folders) {
+			const details = contentEl.createEl('details', { attr: { open: '' } });
+			details.createEl('summary', { text: `${folder.folder} · ${formatCost(folder.cost)}` });
+
+			const table = details.createEl('table', { cls: 'snc-usage-table' });
+			const header = table.createEl('tr');
+			['Note', 'Cost', 'Tokens in', 'Tokens out'].forEach(title => header.createEl('th', { text: title }));
+
+			for (const note of folder.notes) {
+				const row = table.createEl('tr');
+				const link = row.createEl('td').createEl('a', { text: note.file.basename, href: '#' });
+				link.addEventListener('click', (evt) => {
+					evt.preventDefault();
+					this.app.workspace.openLinkText(note.file.path, '', false);
+				});
+				row.createEl('td', { text: formatCost(note.cost) });
+				row.createEl('td', { text: note.promptTokens.toLocaleString() });
+				row.createEl('td', { text: note.completionTokens.toLocaleString() });
+			}
+		}
+	}
+
+	/**
+	 * Reads usage totals from every markdown note's frontmatter and groups them
+	 * by folder, most expensive folders and notes first.
+	 */
+	private collectUsageByFolder(): FolderUsage[] {
+		const folders = new Map<string, FolderUsage>();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const cost = Number(frontmatter?.[FRONTMATTER_COST_KEY]);
+			const promptTokens = Number(frontmatter?.[FRONTMATTER_PROMPT_TOKENS_KEY]);
+			if (isNaN(cost) && isNaN(promptTokens)) {
+				continue;
+			}
+
+			const folderPath = file.parent?.path || '/';
+			let folder = folders.get(folderPath);
+			if (!folder) {
+				folder = { folder: folderPath, cost: 0, notes: [] };
+				folders.set(folderPath, folder);
+			}
+			const noteUsage: NoteUsage = {
+				file,
+				cost: isNaN(cost) ? 0 : cost,
+				promptTokens: isNaN(promptTokens) ? 0 : promptTokens,
+				completionTokens: Number(frontmatter?.[FRONTMATTER_COMPLETION_TOKENS_KEY]) || 0,
+			};
+			folder.notes.push(noteUsage);
+			folder.cost += noteUsage.cost;
+		}
+
+		const sorted = Array.from(folders.values()).sort((a, b) => b.cost - a.cost);
+		sorted.forEach(folder => folder.notes.sort((a, b) => b.cost - a.cost));
+		return sorted;
+	}
+}
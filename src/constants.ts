@@ -2,11 +2,34 @@ export const CHAT_COMMAND_DEFAULT = 'cc';
 export const ARCHIVE_COMMAND_DEFAULT = 'gg';
 export const NEW_CHAT_COMMAND_DEFAULT = 'nn';
 export const MODEL_COMMAND_DEFAULT = 'cm';
+export const REGENERATE_COMMAND_DEFAULT = 'rr';
+export const CONTINUE_COMMAND_DEFAULT = 'cg';
 
 export const CHAT_SEPARATOR = '<hr message-from="chat">';
 export const DEFAULT_ARCHIVE_FOLDER = 'archive/';
 export const DEFAULT_NN_TITLE_FORMAT = 'YYYY-MM-DD-HH-mm';
 export const CHAT_BOUNDARY_MARKER = '^^^';
+// Longest wait between retries of a failed request; a longer Retry-After gives up instead
+export const RETRY_MAX_DELAY_MS = 30000;
+
+// Frontmatter keys read from chat notes to override settings per note
+export const FRONTMATTER_MODEL_KEY = 'model';
+export const FRONTMATTER_SYSTEM_KEY = 'system';
+export const FRONTMATTER_REASONING_KEY = 'reasoning';
+export const FRONTMATTER_COMPARE_MODELS_KEY = 'compare-models';
+export const FRONTMATTER_FALLBACK_MODELS_KEY = 'fallback-models';
+// Frontmatter keys read from prompt templates
+export const FRONTMATTER_TEMPLATE_PHRASE_KEY = 'phrase';
+export const FRONTMATTER_TEMPLATE_COMMAND_KEY = 'command';
+// Running usage totals, written when usage recording in frontmatter is enabled
+export const FRONTMATTER_COST_KEY = 'chat-cost';
+export const FRONTMATTER_PROMPT_TOKENS_KEY = 'chat-tokens-in';
+export const FRONTMATTER_COMPLETION_TOKENS_KEY = 'chat-tokens-out';
+
+// Callout type that holds a response's streamed reasoning, folded above the answer
+export const THINKING_CALLOUT_TYPE = 'thinking';
+// Callout type that keeps an earlier answer to the same message, folded below the shown answer
+export const VARIANT_CALLOUT_TYPE = 'variant';
 
 const ESCAPED_BOUNDARY_MARKER = CHAT_BOUNDARY_MARKER.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
@@ -19,3 +42,7 @@ export function createChatBoundaryRegex(flags = 'm'): RegExp {
 }
 
 export const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1';
+export const OPENROUTER_PROVIDER_ID = 'openrouter';
+// Joins a custom provider's ID and its model ID, e.g. "ollama::llama3.1:8b".
+// OpenRouter model IDs stay unprefixed so existing settings and notes keep working.
+export const PROVIDER_MODEL_SEPARATOR = '::';
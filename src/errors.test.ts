@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createResponseError,
+    getErrorAdvice,
+    isAbortError,
+    AbortedError,
+    AuthError,
+    ChatCompletionError,
+    ConfigurationError,
+    ContextLengthError,
+    InsufficientCreditsError,
+    ModerationError,
+    NetworkError,
+    RateLimitError,
+} from './errors';
+
+// The error type decides both the advice shown to the user and whether the
+// request is retried, so misclassifying one either hides the fix or retries
+// requests that can never succeed.
+describe('createResponseError', () => {
+    it('classifies by status', () => {
+        expect(createResponseError('Invalid key', 401)).toBeInstanceOf(AuthError);
+        expect(createResponseError('Insufficient credits', 402)).toBeInstanceOf(InsufficientCreditsError);
+        expect(createResponseError('Slow down', 429, 2000)).toBeInstanceOf(RateLimitError);
+        expect(createResponseError('Bad gateway', 502)).toBeInstanceOf(ChatCompletionError);
+    });
+
+    it('tells moderation apart from a forbidden key', () => {
+        expect(createResponseError('Your chosen model requires moderation and your input was flagged', 403)).toBeInstanceOf(ModerationError);
+        expect(createResponseError('Key disabled', 403)).toBeInstanceOf(AuthError);
+    });
+
+    it('recognizes context length errors among bad requests', () => {
+        expect(createResponseError("This endpoint's maximum context length is 8192 tokens", 400)).toBeInstanceOf(ContextLengthError);
+        expect(createResponseError('prompt is too long: 210000 tokens > 200000 maximum', 400)).toBeInstanceOf(ContextLengthError);
+        expect(createResponseError('Invalid reasoning effort', 400)).not.toBeInstanceOf(ContextLengthError);
+    });
+
+    it('keeps the status and Retry-After', () => {
+        const error = createResponseError('Slow down', 429, 2000);
+        expect(error.status).toBe(429);
+        expect(error.retryAfterMs).toBe(2000);
+    });
+});
+
+describe('isTransient', () => {
+    it('is true for rate limits, outages, and network failures', () => {
+        expect(createResponseError('Slow down', 429).isTransient).toBe(true);
+        expect(createResponseError('Unavailable', 503).isTransient).toBe(true);
+        expect(new NetworkError('Offline').isTransient).toBe(true);
+    });
+
+    it('is false for errors that retrying cannot fix', () => {
+        expect(createResponseError('Invalid key', 401).isTransient).toBe(false);
+        expect(createResponseError('Too long for the context window', 400).isTransient).toBe(false);
+        expect(new ConfigurationError('API key is not set').isTransient).toBe(false);
+        expect(new AbortedError().isTransient).toBe(false);
+    });
+});
+
+describe('isAbortError', () => {
+    it('recognizes both its own and fetch\'s abort errors', () => {
+        expect(isAbortError(new AbortedError())).toBe(true);
+        expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true);
+        expect(isAbortError(new NetworkError('Offline'))).toBe(false);
+    });
+});
+
+describe('getErrorAdvice', () => {
+    it('sends setup and key problems to the settings', () => {
+        expect(getErrorAdvice(new ConfigurationError('OpenRouter API key is not set')).fix).toBe('open-settings');
+        expect(getErrorAdvice(createResponseError('Invalid key', 401)).fix).toBe('open-settings');
+    });
+
+    it('suggests another model when this one can\'t take the chat', () => {
+        const advice = getErrorAdvice(createResponseError('maximum context length exceeded', 400));
+        expect(advice.fix).toBe('choose-model');
+        expect(advice.message).toMatch(/longer context/);
+    });
+
+    it('passes other errors through with their message', () => {
+        expect(getErrorAdvice(new Error('Something odd'))).toEqual({ message: 'Chat error: Something odd', fix: null });
+    });
+});
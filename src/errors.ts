@@ -0,0 +1,173 @@
+// src/errors.ts
+import { isRetryableStatus } from './utils/retry';
+
+/**
+ * Error from a failed chat or model list request, carrying the HTTP status
+ * so callers can distinguish client errors (4xx) from other failures. The
+ * subclasses below name the failures users can do something about.
+ */
+export class ChatCompletionError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+        public readonly retryAfterMs: number | null = null // From the Retry-After header, if sent
+    ) {
+        super(message);
+        this.name = 'ChatCompletionError';
+    }
+
+    /** True if the same request may succeed later: rate limits, outages, network failures. */
+    get isTransient(): boolean {
+        return this.status !== undefined && isRetryableStatus(this.status);
+    }
+}
+
+/** Something needed for requests isn't set up: an API key, base URL, model, or provider. */
+export class ConfigurationError extends ChatCompletionError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigurationError';
+    }
+}
+
+/** The provider rejected the API key (401/403). */
+export class AuthError extends ChatCompletionError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'AuthError';
+    }
+}
+
+/** The account has run out of credits (402). */
+export class InsufficientCreditsError extends ChatCompletionError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'InsufficientCreditsError';
+    }
+}
+
+/** Too many requests (429); worth retrying after a wait. */
+export class RateLimitError extends ChatCompletionError {
+    constructor(message: string, status?: number, retryAfterMs: number | null = null) {
+        super(message, status, retryAfterMs);
+        this.name = 'RateLimitError';
+    }
+}
+
+/** The conversation doesn't fit the model's context window. */
+export class ContextLengthError extends ChatCompletionError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'ContextLengthError';
+    }
+}
+
+/** The provider's moderation flagged the input. */
+export class ModerationError extends ChatCompletionError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'ModerationError';
+    }
+}
+
+/** No response at all: offline, DNS failure, or a local server that isn't running. */
+export class NetworkError extends ChatCompletionError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+
+    get isTransient(): boolean {
+        return true;
+    }
+}
+
+/** The request was cancelled, e.g. by the user pressing Escape. */
+export class AbortedError extends ChatCompletionError {
+    constructor(message = 'Chat cancelled') {
+        super(message);
+        this.name = 'AbortError'; // Matches fetch's own abort errors
+    }
+}
+
+// Provider wordings for a prompt that is too long (OpenRouter, OpenAI, Anthropic, llama.cpp, vLLM)
+const CONTEXT_LENGTH_PATTERN = /context[ _-]?(length|window)|maximum context|too many tokens|prompt is too long|exceeds? the (available )?context/i;
+const MODERATION_PATTERN = /moderat|flagged/i;
+
+/**
+ * Creates the error for a request that got a non-OK response, picking the
+ * subclass from the status and, where statuses are shared, the message.
+ * @param message The error message, including the provider's explanation.
+ * @param status The HTTP status.
+ * @param retryAfterMs The wait from the Retry-After header, if sent.
+ */
+export function createResponseError(message: string, status: number, retryAfterMs: number | null = null): ChatCompletionError {
+    switch (status) {
+        case 401:
+            return new AuthError(message, status);
+        case 402:
+            return new InsufficientCreditsError(message, status);
+        case 403:
+            return MODERATION_PATTERN.test(message) ? new ModerationError(message, status) : new AuthError(message, status);
+        case 429:
+            return new RateLimitError(message, status, retryAfterMs);
+    }
+    if ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(message)) {
+        return new ContextLengthError(message, status);
+    }
+    return new ChatCompletionError(message, status, retryAfterMs);
+}
+
+/**
+ * @returns True for a cancelled request, whether cancelled here or by fetch itself.
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof AbortedError || (error instanceof DOMException && error.name === 'AbortError');
+}
+
+/**
+ * What the user can do about an error: open the plugin settings, or choose another model.
+ */
+export type ErrorFix = 'open-settings' | 'choose-model';
+
+/**
+ * An error explained for the user.
+ */
+export interface ErrorAdvice {
+    message: string;       // What went wrong and what to do about it
+    fix: ErrorFix | null;  // The action offered alongside the message, if any
+}
+
+/**
+ * Explains an error for a notice, with a suggested fix.
+ */
+export function getErrorAdvice(error: unknown): ErrorAdvice {
+    if (isAbortError(error)) {
+        return { message: 'Chat cancelled.', fix: null };
+    }
+    if (error instanceof ConfigurationError) {
+        return { message: `Setup needed: ${error.message}`, fix: 'open-settings' };
+    }
+    if (error instanceof AuthError) {
+        return { message: 'The provider rejected the API key. Check the key in the plugin settings.', fix: 'open-settings' };
+    }
+    if (error instanceof InsufficientCreditsError) {
+        return { message: 'Your account with the provider is out of credits. Add credits, or choose a cheaper or free model.', fix: 'choose-model' };
+    }
+    if (error instanceof RateLimitError) {
+        return { message: 'The provider is rate limiting requests. Wait a moment and try again, or choose another model.', fix: 'choose-model' };
+    }
+    if (error instanceof ContextLengthError) {
+        return { message: 'This chat is too long for the model. Choose a model with a longer context window, or shorten the chat.', fix: 'choose-model' };
+    }
+    if (error instanceof ModerationError) {
+        return { message: 'The provider\'s moderation flagged this chat. Rephrase it, or choose a model without moderation.', fix: 'choose-model' };
+    }
+    if (error instanceof NetworkError) {
+        return { message: 'Could not reach the provider. Check your network connection, or that your local server is running.', fix: null };
+    }
+    if (error instanceof ChatCompletionError && error.status !== undefined && error.status >= 500) {
+        return { message: 'The provider had a problem answering. Try again later, or choose another model.', fix: 'choose-model' };
+    }
+    return { message: `Chat error: ${error instanceof Error ? error.message : String(error)}`, fix: null };
+}
@@ -1,43 +1,80 @@
-import { Editor, MarkdownView, Notice, Plugin, moment, normalizePath } from 'obsidian';
+import { Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFolder, WorkspaceLeaf, debounce, moment, normalizePath } from 'obsidian';
 import { SimpleNoteChatSettingsTab } from './SettingsTab';
 import { ChatService } from './ChatService';
+import { ChatStatusBar, CancelStreamModal } from './ChatStatusBar';
+import { NoteStatusBar } from './NoteStatusBar';
 import { OpenRouterService } from './OpenRouterService';
+import { ProviderRegistry } from './ProviderRegistry';
 import { EditorHandler } from './EditorHandler';
 import { FileSystemService } from './FileSystemService';
+import { NoteContextService } from './NoteContextService';
+import { StreamTarget } from './StreamTarget';
+import { ModelSelectorModal } from './ModelSelectorModal';
+import { SelectionPromptModal } from './SelectionPromptModal';
+import { RewritePreviewModal } from './RewritePreviewModal';
+import { PromptTemplate, TemplateService } from './TemplateService';
+import { TemplateSuggestModal } from './TemplateModals';
+import { UsageSummaryView, USAGE_SUMMARY_VIEW_TYPE } from './UsageSummaryView';
 import { PluginSettings, DEFAULT_SETTINGS } from './types';
 import { log, initializeLogger } from './utils/logger';
 import { DEFAULT_NN_TITLE_FORMAT } from './constants';
+import { CommandPhraseDefinition, ParsedCommandLine, parseCommandLine, resolveFolderArgument, resolveModelArgument, resolveTitleArgument } from './utils/commandPhrase';
+import { CommandArgumentSuggest } from './CommandArgumentSuggest';
+
+/**
+ * A command phrase's handler. `args` is the text after the phrase, for phrases that take arguments.
+ */
+interface CommandPhraseHandler extends CommandPhraseDefinition {
+	run: (editor: Editor, view: MarkdownView, line: number, args: string) => void;
+}
 
 export default class SimpleNoteChatPlugin extends Plugin {
 	settings: PluginSettings;
 	chatService: ChatService;
 	openRouterService: OpenRouterService;
+	providerRegistry: ProviderRegistry;
 	editorHandler: EditorHandler;
 	fileSystemService: FileSystemService;
+	noteContextService: NoteContextService;
+	templateService: TemplateService;
+	private noteStatusBar: NoteStatusBar | null = null;
 
-	private commandMap: Record<string, ((editor: Editor, view: MarkdownView, line: number) => void) | undefined> = {};
+	private commandMap: Record<string, CommandPhraseHandler | undefined> = {};
 	private spacebarCommandTimeoutIds: Map<string, number> = new Map();
+	private templates: PromptTemplate[] = [];
+	private argumentSuggest: CommandArgumentSuggest;
 
 	async onload() {
 		log.debug('Loading Simple Note Chat plugin');
 		await this.loadSettings();
 		initializeLogger(this.settings); // Initialize logger with loaded settings
 
+		this.templateService = new TemplateService(this.app);
 		this.updateCommandMap();
 
-		this.openRouterService = new OpenRouterService();
+		this.openRouterService = new OpenRouterService(() => this.settings.apiKey);
+		this.providerRegistry = new ProviderRegistry(this.openRouterService, () => this.settings);
 
-		if (this.settings.apiKey) {
-			this.openRouterService.fetchModels(this.settings.apiKey)
+		if (this.providerRegistry.hasConfiguredProvider()) {
+			this.providerRegistry.fetchModels()
 				.then(() => log.debug('Models prefetched on plugin load'))
 				.catch(err => log.error('Error prefetching models:', err));
 		}
-		this.chatService = new ChatService(this, this.openRouterService);
-		this.fileSystemService = new FileSystemService(this.app, this.openRouterService);
+		this.noteContextService = new NoteContextService(this.app);
+		this.chatService = new ChatService(this, this.providerRegistry, this.noteContextService);
+		this.fileSystemService = new FileSystemService(this.app, this.providerRegistry);
 		this.editorHandler = new EditorHandler(this.app, this);
 
 		this.addSettingTab(new SimpleNoteChatSettingsTab(this.app, this));
 
+		const statusBar = new ChatStatusBar(this.addStatusBarItem(), this.chatService);
+		this.register(this.chatService.onStreamsChanged(() => statusBar.update()));
+		this.noteStatusBar = this.addChild(new NoteStatusBar(this, this.addStatusBarItem()));
+		this.registerView(USAGE_SUMMARY_VIEW_TYPE, (leaf) => new UsageSummaryView(leaf));
+		this.registerEditorExtension(StreamTarget.tracking); // Lets streaming responses follow edits made around them
+		this.argumentSuggest = new CommandArgumentSuggest(this);
+		this.registerEditorSuggest(this.argumentSuggest);
+
 		// registerDomEvent removes the listener automatically on plugin unload
 		this.registerDomEvent(document, 'keydown', (evt: KeyboardEvent) => {
 			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -71,6 +108,112 @@ export default class SimpleNoteChatPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'chat-about-selection',
+			name: 'Ask about selection…',
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (!file || !editor.somethingSelected()) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+				const from = editor.posToOffset(editor.getCursor('from'));
+				const to = editor.posToOffset(editor.getCursor('to'));
+				new SelectionPromptModal(this.app, (instruction, action) => {
+					if (action === 'preview') {
+						new RewritePreviewModal(this, editor, file, from, to, instruction).open();
+						return;
+					}
+					this.chatService.askAboutSelection(editor, file, this.settings, from, to, instruction, action)
+						.catch((error: Error) => log.error("Error asking about selection:", error));
+				}).open();
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'regenerate-last-response',
+			name: 'Regenerate last response',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (!file) {
+					new Notice("Cannot regenerate: No active file.");
+					return;
+				}
+				this.chatService.regenerateLastResponse(editor, file, this.settings)
+					.catch((error: Error) => log.error("Error regenerating response from command:", error));
+			}
+		});
+
+		this.addCommand({
+			id: 'regenerate-last-response-with-model',
+			name: 'Regenerate last response with another model',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (!file) {
+					new Notice("Cannot regenerate: No active file.");
+					return;
+				}
+				new ModelSelectorModal(this, file, (model) => {
+					this.chatService.regenerateLastResponse(editor, file, this.settings, model)
+						.catch((error: Error) => log.error("Error regenerating response with another model:", error));
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'continue-last-response',
+			name: 'Continue last response',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (!file) {
+					new Notice("Cannot continue: No active file.");
+					return;
+				}
+				this.chatService.continueLastResponse(editor, file, this.settings)
+					.catch((error: Error) => log.error("Error continuing response from command:", error));
+			}
+		});
+
+		this.addCommand({
+			id: 'show-next-response-variant',
+			name: 'Show next response variant',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) {
+					this.chatService.showNextResponseVariant(editor, view.file);
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'keep-shown-response-variant',
+			name: 'Keep shown response variant',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) {
+					this.chatService.acceptResponseVariant(editor, view.file);
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'compare-models',
+			name: 'Ask several models (compare)',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (!file) {
+					new Notice("Cannot compare models: No active file.");
+					return;
+				}
+				this.chatService.startComparison(editor, file, this.settings, editor.getCursor())
+					.catch((error: Error) => {
+						log.error("Error starting model comparison:", error);
+						new Notice("Failed to start comparison. See console for details.");
+					});
+			}
+		});
+
 		this.addCommand({
 			id: 'archive-current-note',
 			name: 'Archive current note',
@@ -102,6 +245,52 @@ export default class SimpleNoteChatPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'cancel-chat-stream',
+			name: 'Cancel a streaming chat…',
+			checkCallback: (checking: boolean) => {
+				if (this.chatService.getActiveStreams().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					new CancelStreamModal(this.app, this.chatService).open();
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'use-prompt-template',
+			name: 'Use prompt template…',
+			editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+				if (!ctx.file || this.templates.length === 0) {
+					return false;
+				}
+				if (!checking) {
+					const file = ctx.file;
+					new TemplateSuggestModal(this.app, this.templates, (template) => {
+						this.editorHandler.applyTemplate(editor, file, this.settings, template);
+					}).open();
+				}
+				return true;
+			}
+		});
+
+		// Templates are read from the metadata cache, which is only complete once the layout is ready
+		const refreshTemplates = debounce(() => this.refreshTemplates(), 500, true);
+		const onTemplateChanged = (file: TAbstractFile, oldPath?: string) => {
+			if (this.templateService.isTemplate(file, this.settings)
+				|| (oldPath && this.templateService.isTemplate(oldPath, this.settings))) {
+				refreshTemplates();
+			}
+		};
+		this.app.workspace.onLayoutReady(() => {
+			this.refreshTemplates();
+			this.registerEvent(this.app.metadataCache.on('changed', (file) => onTemplateChanged(file)));
+			this.registerEvent(this.app.vault.on('delete', (file) => onTemplateChanged(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => onTemplateChanged(file, oldPath)));
+		});
+
 		this.addCommand({
 			id: 'change-chat-model',
 			name: 'Change chat model',
@@ -110,6 +299,12 @@ export default class SimpleNoteChatPlugin extends Plugin {
 				log.debug("Executed 'change model' command via hotkey.");
 			}
 		});
+
+		this.addCommand({
+			id: 'open-usage-summary',
+			name: 'Open chat spend summary',
+			callback: () => this.openUsageSummary()
+		});
 	}
 
 	onunload() {
@@ -118,11 +313,29 @@ export default class SimpleNoteChatPlugin extends Plugin {
 		this.cleanupTimeouts();
 	}
 
+	/**
+	 * Opens the chat spend summary in the right sidebar, reusing an open one.
+	 */
+	async openUsageSummary(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(USAGE_SUMMARY_VIEW_TYPE)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) {
+				new Notice("Could not open the chat spend summary.");
+				return;
+			}
+			await leaf.setViewState({ type: USAGE_SUMMARY_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
 	/**
 	 * Creates a new chat note in the configured location and opens it.
 	 * Used by both the command palette command and the new-chat command phrase.
+	 * @param title Optional note title; defaults to one built from the title format settings.
 	 */
-	async createNewChatNote(): Promise<void> {
+	async createNewChatNote(title?: string): Promise<void> {
 		try {
 			let targetFolder = '';
 			if (this.settings.newNoteLocation === 'current') {
@@ -163,13 +376,15 @@ export default class SimpleNoteChatPlugin extends Plugin {
 				}
 			}
 
-			// Construct title using prefix, format, and suffix
+			// Construct title using prefix, format, and suffix, unless one was given
+			// (minus characters that aren't allowed in file names)
+			const givenTitle = title?.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
 			const formattedDate = moment().format(this.settings.newNoteTitleFormat || DEFAULT_NN_TITLE_FORMAT);
 			const prefix = this.settings.newNoteTitlePrefix || '';
 			const suffix = this.settings.newNoteTitleSuffix || '';
-			const title = `${prefix}${formattedDate}${suffix}`;
+			const noteTitle = givenTitle || `${prefix}${formattedDate}${suffix}`;
 
-			const baseFilename = `${title}.md`;
+			const baseFilename = `${noteTitle}.md`;
 			const availablePath = this.fileSystemService.findAvailablePath(targetFolder, baseFilename);
 
 			const newFile = await this.app.vault.create(availablePath, '');
@@ -194,32 +409,167 @@ export default class SimpleNoteChatPlugin extends Plugin {
 	async saveSettings() {
 		await this.saveData(this.settings);
 
-		// Update command map when settings change
-		this.updateCommandMap();
+		// Update command map (and the templates, whose folder may have changed) when settings change
+		this.refreshTemplates();
 		initializeLogger(this.settings); // Re-initialize logger with new settings
+		this.noteStatusBar?.render(); // The default model may have changed
 	}
 
 	/**
-	 * Updates the command map based on current settings.
+	 * Re-reads the prompt templates, then updates their command phrases and palette commands.
+	 */
+	private refreshTemplates() {
+		this.templates = this.templateService.getTemplates(this.settings);
+		log.debug(`Found ${this.templates.length} prompt templates.`);
+		this.updateCommandMap();
+		this.registerTemplateCommands();
+	}
+
+	/**
+	 * Adds a palette command for each template that asks for one.
+	 * Obsidian can't remove commands on every supported version, so commands of
+	 * templates that were deleted or opted out stay registered but unavailable.
+	 */
+	private registerTemplateCommands() {
+		for (const template of this.templates.filter(template => template.command)) {
+			const path = template.file.path;
+			this.addCommand({
+				id: `template-${path.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+				name: `Prompt template: ${template.name}`,
+				editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+					const current = this.templates.find(candidate => candidate.file.path === path && candidate.command);
+					if (!current || !ctx.file) {
+						return false;
+					}
+					if (!checking) {
+						this.editorHandler.applyTemplate(editor, ctx.file, this.settings, current);
+					}
+					return true;
+				}
+			});
+		}
+	}
+
+	/**
+	 * Finds the command phrase (and its arguments) at the start of a line.
+	 * @returns The phrase and its arguments, or null if the line doesn't hold a command phrase.
+	 */
+	findCommandPhrase(line: string): ParsedCommandLine<CommandPhraseDefinition> | null {
+		return parseCommandLine(line, this.commandMap);
+	}
+
+	/**
+	 * Lists the paths of the vault's folders, except the root.
+	 */
+	getFolderPaths(): string[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+			.map(folder => folder.path);
+	}
+
+	/**
+	 * Checks a phrase's arguments against what they name: a model argument must
+	 * match a known model, and a folder argument an existing folder. Anything
+	 * else is prose that happens to start with a phrase word.
+	 * @returns The resolved arguments (empty if there are none), or null if they don't resolve.
+	 */
+	private async resolveCommandArguments(command: ParsedCommandLine<CommandPhraseHandler>): Promise<string | null> {
+		if (!command.args) {
+			return '';
+		}
+		switch (command.command.argument) {
+			case 'model': {
+				if (!this.providerRegistry.hasConfiguredProvider()) {
+					return null;
+				}
+				try {
+					const models = await this.providerRegistry.fetchModels();
+					return resolveModelArgument(command.args, models.map(model => model.id));
+				} catch (error) {
+					log.warn(`Could not load models to check the argument of "${command.phrase}":`, error);
+					return null;
+				}
+			}
+			case 'folder':
+				return resolveFolderArgument(command.args, this.getFolderPaths());
+			case 'title':
+				return resolveTitleArgument(command.args);
+			default:
+				return command.args;
+		}
+	}
+
+	/**
+	 * Updates the command map based on current settings and templates.
+	 * Built-in command phrases take precedence over custom phrases, and those over template phrases.
 	 */
 	private updateCommandMap() {
 		this.commandMap = {};
 
 		if (this.settings.chatCommandPhrase) {
-			this.commandMap[this.settings.chatCommandPhrase] =
-				(editor, view, line) => this.editorHandler.triggerChatCommand(editor, view, this.settings, line);
+			this.commandMap[this.settings.chatCommandPhrase] = {
+				argument: 'model',
+				run: (editor, view, line, args) =>
+					this.editorHandler.triggerChatCommand(editor, view, this.settings, line, { model: args || undefined }),
+			};
 		}
 		if (this.settings.archiveCommandPhrase) {
-			this.commandMap[this.settings.archiveCommandPhrase] =
-				(editor, view, line) => this.editorHandler.triggerArchiveCommand(editor, view, this.settings, line);
+			this.commandMap[this.settings.archiveCommandPhrase] = {
+				argument: 'folder',
+				run: (editor, view, line, args) =>
+					this.editorHandler.triggerArchiveCommand(editor, view, this.settings, line, args || this.settings.archiveFolderName),
+			};
 		}
 		if (this.settings.modelCommandPhrase) {
-			this.commandMap[this.settings.modelCommandPhrase] =
-				(editor, view, line) => this.editorHandler.triggerModelCommand(editor, view, this.settings, line);
+			this.commandMap[this.settings.modelCommandPhrase] = {
+				argument: 'model',
+				run: (editor, view, line, args) => this.editorHandler.triggerModelCommand(editor, view, this.settings, line, args),
+			};
+		}
+		if (this.settings.regenerateCommandPhrase) {
+			this.commandMap[this.settings.regenerateCommandPhrase] = {
+				argument: 'model',
+				run: (editor, view, line, args) => this.editorHandler.triggerRegenerateCommand(editor, view, this.settings, line, args),
+			};
+		}
+		if (this.settings.continueCommandPhrase) {
+			this.commandMap[this.settings.continueCommandPhrase] = {
+				run: (editor, view, line) => this.editorHandler.triggerContinueCommand(editor, view, this.settings, line),
+			};
 		}
 		if (this.settings.newChatCommandPhrase) {
-			this.commandMap[this.settings.newChatCommandPhrase] =
-				(editor, view, line) => this.editorHandler.triggerNewChatCommand(editor, view, this.settings, line);
+			this.commandMap[this.settings.newChatCommandPhrase] = {
+				argument: 'title',
+				run: (editor, view, line, args) => this.editorHandler.triggerNewChatCommand(editor, view, this.settings, line, args),
+			};
+		}
+
+		for (const custom of this.settings.customCommandPhrases) {
+			const phrase = custom.phrase.trim();
+			if (!phrase) {
+				continue;
+			}
+			if (this.commandMap[phrase]) {
+				log.warn(`Custom phrase "${phrase}" is already in use; ignoring it.`);
+				continue;
+			}
+			this.commandMap[phrase] = {
+				argument: custom.action === 'chat' ? 'model' : custom.action === 'archive' ? 'folder' : undefined,
+				run: (editor, view, line, args) => this.editorHandler.triggerCustomCommand(editor, view, this.settings, line, custom, args),
+			};
+		}
+
+		for (const template of this.templates) {
+			if (!template.phrase) {
+				continue;
+			}
+			if (this.commandMap[template.phrase]) {
+				log.warn(`Template "${template.name}": the phrase "${template.phrase}" is already in use; ignoring it.`);
+				continue;
+			}
+			this.commandMap[template.phrase] = {
+				run: (editor, view, line) => this.editorHandler.triggerTemplateCommand(editor, view, this.settings, line, template),
+			};
 		}
 	}
 
@@ -320,15 +670,29 @@ export default class SimpleNoteChatPlugin extends Plugin {
 		const cursor = editor.getCursor();
 		const commandLineNum = cursor.line - 1;
 		if (commandLineNum >= 0) {
-			const possibleCommand = editor.getLine(commandLineNum).trim();
-			const commandHandler = this.commandMap[possibleCommand];
-			if (commandHandler) {
-				log.debug(`Enter: Found command "${possibleCommand}" on line ${commandLineNum}`);
+			const possibleCommand = editor.getLine(commandLineNum);
+			const command = parseCommandLine(possibleCommand, this.commandMap);
+			if (command && !command.args) {
+				log.debug(`Enter: Found command "${command.phrase}" on line ${commandLineNum}`);
 				evt.preventDefault();
 				evt.stopPropagation();
-				commandHandler(editor, view, commandLineNum);
+				command.command.run(editor, view, commandLineNum, '');
+			} else if (command) {
+				// Only run once the arguments check out; until then the line may be ordinary text
+				this.resolveCommandArguments(command).then(args => {
+					if (args === null) {
+						log.debug(`Enter: "${command.args}" is not an argument of "${command.phrase}"; leaving the line as text.`);
+						return;
+					}
+					if (editor.getLine(commandLineNum) !== possibleCommand) {
+						log.debug(`Enter: Line ${commandLineNum} changed while checking the arguments of "${command.phrase}"; not running it.`);
+						return;
+					}
+					log.debug(`Enter: Found command "${command.phrase}" with arguments "${args}" on line ${commandLineNum}`);
+					command.command.run(editor, view, commandLineNum, args);
+				}).catch(error => log.error(`Error running command "${command.phrase}":`, error));
 			} else {
-				log.debug(`Enter: No command found for "${possibleCommand}" on line ${commandLineNum}`);
+				log.debug(`Enter: No command found for "${possibleCommand.trim()}" on line ${commandLineNum}`);
 			}
 		}
 	}
@@ -354,24 +718,29 @@ export default class SimpleNoteChatPlugin extends Plugin {
 		}
 
 		const triggerCursor = editor.getCursor(); // Store cursor position at the time space was pressed
+		const commandLineNum = triggerCursor.line;
+
+		// Only a line that is exactly a phrase starts the timer. A phrase with arguments
+		// is left to the Enter key, so it can't run while the argument is still being typed.
+		const textBeforeSpace = editor.getLine(commandLineNum).substring(0, triggerCursor.ch).trim();
+		const phrase = this.commandMap[textBeforeSpace] ? textBeforeSpace : null;
+		if (!phrase) {
+			log.debug(`Spacebar: No command found for "${textBeforeSpace}"`);
+			return;
+		}
 
 		const newTimeoutId = window.setTimeout(() => {
 			this.spacebarCommandTimeoutIds.delete(filePath);
 
-			const commandLineNum = triggerCursor.line;
-			const textBeforeSpace = editor.getLine(commandLineNum)
-										.substring(0, triggerCursor.ch)
-										.trim();
-
-			log.debug(`Spacebar timeout: Checking for command "${textBeforeSpace}" on line ${commandLineNum} (cursor was at ch ${triggerCursor.ch})`);
-
-			const commandHandler = this.commandMap[textBeforeSpace];
-			if (commandHandler) {
-				log.debug(`Spacebar: Found command "${textBeforeSpace}" on line ${commandLineNum}. Executing.`);
-				commandHandler(editor, view, commandLineNum);
-			} else {
-				log.debug(`Spacebar: No command found for "${textBeforeSpace}"`);
+			// Not if an argument was typed (or is being picked) since the space
+			const lineText = editor.getLine(commandLineNum).trim();
+			const command = this.commandMap[lineText];
+			if (lineText !== phrase || !command || this.argumentSuggest.context) {
+				log.debug(`Spacebar timeout: Line ${commandLineNum} is no longer just "${phrase}"; not running it.`);
+				return;
 			}
+			log.debug(`Spacebar: Found command "${phrase}" on line ${commandLineNum}. Executing.`);
+			command.run(editor, view, commandLineNum, '');
 		}, this.settings.spacebarDetectionDelay * 1000);
 		this.spacebarCommandTimeoutIds.set(filePath, newTimeoutId);
 	}
@@ -4,7 +4,9 @@ import {
 	CHAT_COMMAND_DEFAULT,
 	ARCHIVE_COMMAND_DEFAULT,
 	NEW_CHAT_COMMAND_DEFAULT,
-	MODEL_COMMAND_DEFAULT
+	MODEL_COMMAND_DEFAULT,
+	REGENERATE_COMMAND_DEFAULT,
+	CONTINUE_COMMAND_DEFAULT
 } from './constants';
 
 /**
@@ -13,6 +15,18 @@ import {
  */
 export type ReasoningEffort = 'max' | 'xhigh' | 'high' | 'medium' | 'low' | 'minimal' | 'none';
 
+/**
+ * Reasoning effort for chats; 'default' sends no reasoning config, leaving the model's default.
+ */
+export type ChatReasoningEffort = ReasoningEffort | 'default';
+
+export const CHAT_REASONING_EFFORTS: ChatReasoningEffort[] = ['default', 'none', 'minimal', 'low', 'medium', 'high', 'xhigh', 'max'];
+
+/**
+ * What to do when a conversation is estimated to exceed the model's context window.
+ */
+export type ContextOverflowStrategy = 'refuse' | 'drop-oldest' | 'summarize';
+
 // Define LogLevel enum
 export enum LogLevel {
 	ERROR = 'ERROR',
@@ -21,9 +35,65 @@ export enum LogLevel {
 	DEBUG = 'DEBUG',
 }
 
+/**
+ * A user-configured OpenAI-compatible provider (e.g. Ollama, llama.cpp, or a
+ * provider's own API). Its models are listed as "<id>::<model>".
+ */
+export interface CustomProviderSettings {
+  id: string;      // Short name used as the model ID prefix, e.g. "ollama"
+  baseUrl: string; // API root serving /models and /chat/completions, e.g. http://localhost:11434/v1
+  apiKey: string;  // Optional; local servers usually don't need one
+  models: string;  // Comma-separated model IDs; empty = fetch the list from the server
+}
+
+/**
+ * What a custom command phrase does.
+ * - chat: chat, optionally with its own model and system prompt
+ * - template: use a prompt template, then chat (with the same optional overrides)
+ * - archive: archive the note to its own folder
+ */
+export type CustomPhraseAction = 'chat' | 'template' | 'archive';
+
+/**
+ * A user-defined command phrase, e.g. `ccs` to chat with a cheap summarizer model.
+ */
+export interface CustomCommandPhrase {
+  phrase: string;
+  action: CustomPhraseAction;
+  model: string;        // chat/template: model for this chat; empty = the note's model
+  systemPrompt: string; // chat/template: text, [[link]] or prompt library note name; empty = the note's
+  template: string;     // template: the template note's name
+  folder: string;       // archive: folder to archive to; empty = the archive folder setting
+}
+
 export interface PluginSettings {
   apiKey: string;
+  customProviders: CustomProviderSettings[];
   defaultModel: string;
+  compareModels: string; // Comma-separated model IDs asked side by side by the compare command
+  fallbackModels: string; // Comma-separated model IDs tried in order when a chat's model is unavailable
+  // Retrying requests that fail with transient errors (rate limits, outages, network failures)
+  maxRetries: number;
+  retryInitialDelay: number; // Seconds before the first retry; doubles with each retry
+  // System prompt: literal text, a [[wiki link]] to a note, or a prompt library note name
+  systemPrompt: string;
+  systemPromptFolder: string;
+  templatesFolder: string; // Notes here become prompt templates; empty = no templates
+  // Inline notes referenced by [[links]] and ![[embeds]] into the chat context
+  expandLinks: boolean;
+  linkExpansionDepth: number;
+  linkExpansionMaxChars: number;
+  // Send embedded images to models that accept image input
+  attachImages: boolean;
+  // Context window budgeting
+  contextOverflowStrategy: ContextOverflowStrategy;
+  responseTokenReserve: number; // Tokens kept free for the response when budgeting the prompt
+  // Reasoning for chats (notes can override the effort with `reasoning` frontmatter)
+  chatReasoningEffort: ChatReasoningEffort;
+  showChatReasoning: boolean;
+  // Usage recording
+  showUsageFooter: boolean;
+  recordUsageInFrontmatter: boolean;
   archiveFolderName: string;
   // Settings for the 'New Note' command
   newNoteLocation: 'current' | 'archive' | 'custom';
@@ -49,6 +119,10 @@ export interface PluginSettings {
   archiveCommandPhrase: string;
   newChatCommandPhrase: string;
   modelCommandPhrase: string;
+  regenerateCommandPhrase: string;
+  keepResponseVariants: boolean; // Regenerating keeps earlier answers as folded variants
+  continueCommandPhrase: string;
+  customCommandPhrases: CustomCommandPhrase[];
 
   // Behavior Settings
   enableSpacebarDetection: boolean;
@@ -61,7 +135,25 @@ export interface PluginSettings {
 
 export const DEFAULT_SETTINGS: PluginSettings = {
   apiKey: '',
+  customProviders: [],
   defaultModel: 'openrouter/auto',
+  compareModels: '',
+  fallbackModels: '',
+  maxRetries: 2,
+  retryInitialDelay: 1,
+  systemPrompt: '',
+  systemPromptFolder: '',
+  templatesFolder: '',
+  expandLinks: false,
+  linkExpansionDepth: 1,
+  linkExpansionMaxChars: 20000,
+  attachImages: true,
+  contextOverflowStrategy: 'refuse',
+  responseTokenReserve: 4096,
+  chatReasoningEffort: 'default',
+  showChatReasoning: true,
+  showUsageFooter: false,
+  recordUsageInFrontmatter: false,
   archiveFolderName: DEFAULT_ARCHIVE_FOLDER,
   // New Note settings defaults
   newNoteLocation: 'archive',
@@ -84,6 +176,10 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   archiveCommandPhrase: ARCHIVE_COMMAND_DEFAULT,
   newChatCommandPhrase: NEW_CHAT_COMMAND_DEFAULT,
   modelCommandPhrase: MODEL_COMMAND_DEFAULT,
+  regenerateCommandPhrase: REGENERATE_COMMAND_DEFAULT,
+  keepResponseVariants: true,
+  continueCommandPhrase: CONTINUE_COMMAND_DEFAULT,
+  customCommandPhrases: [],
   // Behavior Settings defaults
   enableSpacebarDetection: false,
   spacebarDetectionDelay: 0.5,
@@ -92,7 +188,25 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   logLevel: LogLevel.ERROR,
 };
 
+/**
+ * A part of a multimodal message, in the OpenAI-style format OpenRouter accepts.
+ * Images are sent as base64 data URLs.
+ */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Token usage and cost reported for a completion.
+ */
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens?: number; // Included in completionTokens
+  cost?: number; // In OpenRouter credits (USD)
+}
+
 export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
 }
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { stripCallouts, extractCallouts, formatCallout } from './callouts';
+
+// Streamed reasoning is stored in the note as a folded callout; it must never
+// be sent back to the model as part of the assistant's answer.
+describe('stripCallouts', () => {
+    it('removes a thinking callout above the answer', () => {
+        const response = '> [!thinking]-\n> Step one.\n>\n> Step two.\n\nThe answer is 42.';
+        expect(stripCallouts(response, 'thinking')).toBe('The answer is 42.');
+    });
+
+    it('keeps callouts of other types and the text around them', () => {
+        const text = 'Intro\n\n> [!note]\n> Keep me\n\nOutro';
+        expect(stripCallouts(text, 'thinking')).toBe(text);
+    });
+
+    it('matches the callout type case-insensitively, folded or not', () => {
+        expect(stripCallouts('> [!Thinking]+ Title\n> hmm\nAnswer', 'thinking')).toBe('Answer');
+    });
+});
+
+// Response variants are kept as folded callouts that hold a whole earlier
+// answer, including its own thinking callout; the round trip must be lossless.
+describe('formatCallout / extractCallouts', () => {
+    it('round-trips a body with blank lines and a nested callout', () => {
+        const body = '> [!thinking]-\n> Step one.\n\nThe answer\n\nis 42.';
+        const text = `Current answer\n\n${formatCallout('variant', 'Variant 1', body)}\n\n`;
+        const { text: remaining, callouts } = extractCallouts(text, 'variant');
+        expect(remaining).toBe('Current answer\n\n');
+        expect(callouts).toEqual([{ title: 'Variant 1', body }]);
+    });
+
+    it('formats a folded callout with quoted lines', () => {
+        expect(formatCallout('variant', '', 'a\n\nb')).toBe('> [!variant]-\n> a\n>\n> b');
+    });
+});
@@ -0,0 +1,51 @@
+// src/utils/callouts.ts
+
+/**
+ * A callout's title (the text after `[!type]`) and its body, without the `>` prefixes.
+ */
+export interface Callout {
+    title: string;
+    body: string;
+}
+
+function createCalloutRegex(type: string): RegExp {
+    const escapedType = type.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Header line, then its `>` lines, then the blank lines that followed it
+    return new RegExp(`^>[ \\t]*\\[!${escapedType}\\][-+]?[ \\t]*(.*)((?:\\r?\\n>.*)*)(?:\\r?\\n[ \\t]*)*`, 'gim');
+}
+
+/**
+ * Removes every callout of the given type (header line plus its `>` lines)
+ * from text, along with the blank lines that followed it.
+ */
+export function stripCallouts(text: string, type: string): string {
+    return text.replace(createCalloutRegex(type), '');
+}
+
+/**
+ * Removes every callout of the given type from text, like stripCallouts,
+ * and returns their titles and bodies in order of appearance.
+ */
+export function extractCallouts(text: string, type: string): { text: string; callouts: Callout[] } {
+    const callouts: Callout[] = [];
+    const remaining = text.replace(createCalloutRegex(type), (_match, title: string, lines: string) => {
+        const body = lines
+            .split(/\r?\n/)
+            .slice(1) // The captured lines start with the newline after the header
+            .map(line => line.replace(/^> ?/, ''))
+            .join('\n');
+        callouts.push({ title: title.trim(), body });
+        return '';
+    });
+    return { text: remaining, callouts };
+}
+
+/**
+ * Formats text as a callout, quoting every line so nested callouts survive.
+ * @param folded True for a collapsed (`-`) callout.
+ */
+export function formatCallout(type: string, title: string, body: string, folded: boolean = true): string {
+    const header = `> [!${type}]${folded ? '-' : ''}${title ? ` ${title}` : ''}`;
+    const quoted = body.split('\n').map(line => (line ? `> ${line}` : '>'));
+    return [header, ...quoted].join('\n');
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { findAnswerEnd, findLastResponse, findChatSeparators, formatChatSeparator, formatRegeneratedTurn, splitChatTurns } from './chatNote';
+
+const SEP = '<hr message-from="chat">';
+
+// Regenerating deletes the range this returns, so an off-by-one here eats
+// the user's message or leaves a stray separator behind.
+describe('findLastResponse', () => {
+    it('returns the last response between its separators', () => {
+        const content = `Hi\n\n${SEP}\n\nHello!\n\n${SEP}\n\nTell me more\n\n${SEP}\n\nSure.\n\n${SEP}\n\n`;
+        const range = findLastResponse(content)!;
+        expect(content.substring(0, range.start)).toBe(`Hi\n\n${SEP}\n\nHello!\n\n${SEP}\n\nTell me more`);
+        expect(content.substring(range.end)).toBe('\n\n');
+        expect(content.substring(range.bodyStart, range.bodyEnd)).toBe('\n\nSure.\n\n');
+        expect(range.followedByText).toBe(false);
+    });
+
+    it('runs an unclosed response to the end of the note', () => {
+        const content = `Hi\n\n${SEP}\n\nHello, I was saying`;
+        const range = findLastResponse(content)!;
+        expect(content.substring(0, range.start)).toBe('Hi');
+        expect(range.end).toBe(content.length);
+        expect(content.substring(range.bodyStart, range.bodyEnd)).toBe('\n\nHello, I was saying');
+        expect(range.followedByText).toBe(false);
+    });
+
+    it('flags text written after the last response', () => {
+        const content = `Hi\n\n${SEP}\n\nHello!\n\n${SEP}\n\nA follow-up`;
+        expect(findLastResponse(content)!.followedByText).toBe(true);
+    });
+
+    it('returns null when the note has no response', () => {
+        expect(findLastResponse('Just a question')).toBeNull();
+    });
+
+    it('handles an attributed opening separator', () => {
+        const opening = formatChatSeparator({ model: 'openai/gpt-4o', time: '2025-01-31T14:05:09Z' });
+        const content = `Hi\n\n${opening}\n\nHello!\n\n${SEP}\n\n`;
+        const range = findLastResponse(content)!;
+        expect(content.substring(0, range.start)).toBe('Hi');
+        expect(content.substring(range.bodyStart, range.bodyEnd)).toBe('\n\nHello!\n\n');
+        expect(range.end).toBe(content.length - 2);
+    });
+});
+
+// Notes written before attribution only have bare separators; both forms must keep parsing.
+// Regenerating swaps the last response for an empty turn and streams the new
+// answer into it; the turn must still be the assistant's afterwards.
+describe('formatRegeneratedTurn', () => {
+    function regenerate(content: string, newAnswer: string, variantsText = ''): string {
+        const response = findLastResponse(content)!;
+        const { turnStart, turnEnd } = formatRegeneratedTurn(response, variantsText);
+        return `${content.substring(0, response.start)}${turnStart}${newAnswer}${turnEnd}`;
+    }
+
+    it('rebuilds a plain response turn', () => {
+        const content = `Hi\n\n${SEP}\n\nHello!\n\n${SEP}\n\n`;
+        expect(regenerate(content, 'Hey!')).toBe(`Hi\n\n${SEP}\n\nHey!\n\n${SEP}\n\n`);
+    });
+
+    it('keeps the explicit role of the original opening separator', () => {
+        // After a system turn, plain alternation would make the next turn the user's
+        const content = `<hr message-from="system">\n\nBe brief.\n\n<hr message-from="assistant">\n\nHello!\n\n${SEP}\n\n`;
+        expect(findLastResponse(content)!.openingRole).toBe('assistant');
+
+        const regenerated = regenerate(content, 'Hi.');
+        expect(regenerated).toContain('<hr message-from="assistant">\n\nHi.');
+        const turns = splitChatTurns(regenerated);
+        const last = turns[turns.length - 1];
+        expect(last.role).toBe('assistant');
+        expect(regenerated.substring(last.bodyStart, last.bodyEnd).trim()).toBe('Hi.');
+    });
+
+    it('puts earlier answers below the new one', () => {
+        const content = `Hi\n\n${SEP}\n\nHello!\n\n${SEP}\n\n`;
+        expect(regenerate(content, 'Hey!', '> [!variant]- Hello!')).toBe(`Hi\n\n${SEP}\n\nHey!\n\n> [!variant]- Hello!\n\n${SEP}\n\n`);
+    });
+});
+
+describe('chat separators', () => {
+    const attribution = {
+        model: 'openai/gpt-4o',
+        time: '2025-01-31T14:05:09Z',
+        usage: { promptTokens: 120, completionTokens: 48, cost: 0.00123 },
+    };
+
+    it('formats a bare separator without an attribution', () => {
+        expect(formatChatSeparator()).toBe(SEP);
+    });
+
+    it('records the model, time, and usage as data attributes', () => {
+        expect(formatChatSeparator(attribution)).toBe(
+            '<hr message-from="chat" data-model="openai/gpt-4o" data-time="2025-01-31T14:05:09Z" data-tokens-in="120" data-tokens-out="48" data-cost="0.00123">'
+        );
+    });
+
+    it('reads back what it formats', () => {
+        const [found] = findChatSeparators(`Before ${formatChatSeparator(attribution)} after`);
+        expect(found.start).toBe(7);
+        expect(found.attribution).toEqual(attribution);
+    });
+
+    it('escapes quotes in attribute values', () => {
+        const tricky = { model: 'local::my "fast" model', time: '2025-01-31T14:05:09Z' };
+        expect(findChatSeparators(formatChatSeparator(tricky))[0].attribution).toEqual(tricky);
+    });
+
+    it('reports bare and unknown-attribute separators as unattributed', () => {
+        const found = findChatSeparators(`${SEP} and <hr message-from="chat" class="wide">`);
+        expect(found.map(separator => separator.attribution)).toEqual([null, null]);
+    });
+
+    it('reads an explicit role from message-from', () => {
+        const found = findChatSeparators(`${formatChatSeparator(null, 'assistant')} ${formatChatSeparator(attribution, 'system')}`);
+        expect(found.map(separator => separator.role)).toEqual(['assistant', 'system']);
+        expect(found[1].attribution).toEqual(attribution);
+    });
+});
+
+describe('splitChatTurns', () => {
+    const roles = (content: string) => splitChatTurns(content).map(turn => [turn.role, content.substring(turn.bodyStart, turn.bodyEnd).trim()]);
+
+    it('alternates on bare and attributed separators alike', () => {
+        const attributed = formatChatSeparator({ model: 'openai/gpt-4o', time: '2025-01-31T14:05:09Z' });
+        expect(roles(`Hi\n${attributed}\nHello!\n${SEP}\nBye`)).toEqual([
+            ['user', 'Hi'], ['assistant', 'Hello!'], ['user', 'Bye'],
+        ]);
+    });
+
+    it('skips blank turns without breaking the alternation', () => {
+        expect(roles(`${SEP}\nHi\n${SEP}\n\n${SEP}\nHello!`)).toEqual([['user', 'Hi'], ['assistant', 'Hello!']]);
+    });
+
+    it('honours explicit roles, alternating from them afterwards', () => {
+        const content = [
+            '<hr message-from="system">', 'Answer in French.',
+            SEP, 'Hi',
+            '<hr message-from="assistant">', 'Bonjour !',
+            '<hr message-from="user">', 'How are you?',
+            '<hr message-from="assistant">', 'Très',
+        ].join('\n');
+        expect(roles(content)).toEqual([
+            ['system', 'Answer in French.'],
+            ['user', 'Hi'],
+            ['assistant', 'Bonjour !'],
+            ['user', 'How are you?'],
+            ['assistant', 'Très'],
+        ]);
+    });
+
+    it('finds the last response by role rather than separator count', () => {
+        const content = `<hr message-from="assistant">\nA few-shot answer\n${SEP}\nMy question\n${SEP}\nThe reply\n${SEP}\n`;
+        const range = findLastResponse(content)!;
+        expect(content.substring(range.bodyStart, range.bodyEnd).trim()).toBe('The reply');
+        expect(range.followedByText).toBe(false);
+    });
+});
+
+// Continuing a cut-off response writes at this offset, so it must land right after the answer's last word.
+describe('findAnswerEnd', () => {
+    it('ends after the answer text, before a usage footer and variants', () => {
+        const body = '\n\nThe answer was cut o\n\n<small class="snc-usage">gpt-4o · 10 in</small>\n\n> [!variant]- Variant 1 of 1\n> Older\n\n';
+        expect(body.substring(0, findAnswerEnd(body)!)).toBe('\n\nThe answer was cut o');
+    });
+
+    it('ends after the text when there is nothing below it', () => {
+        expect(findAnswerEnd('\n\nJust text \n')).toBe(11);
+    });
+
+    it('gives up when a footer sits in the middle of the answer', () => {
+        expect(findAnswerEnd('Part one\n<small class="snc-usage">x</small>\nPart two')).toBeNull();
+    });
+});
@@ -0,0 +1,225 @@
+// src/utils/chatNote.ts
+import { ChatMessage, ChatUsage } from '../types';
+import { CHAT_SEPARATOR, VARIANT_CALLOUT_TYPE } from '../constants';
+import { stripCallouts } from './callouts';
+import { stripUsageFooters } from './usage';
+
+/**
+ * Who wrote a response and when, recorded on the separator that opens it.
+ */
+export interface MessageAttribution {
+    model: string;
+    time: string;       // ISO 8601 timestamp, to the second
+    usage?: ChatUsage;  // Only known once the response has finished
+}
+
+export type ChatRole = ChatMessage['role'];
+
+/**
+ * A chat separator found in a note.
+ */
+export interface ChatSeparatorMatch {
+    start: number;
+    end: number;
+    role: ChatRole | null;                  // Explicit role of the following message; null for message-from="chat"
+    attribution: MessageAttribution | null; // Null for bare separators (older notes, closing separators)
+}
+
+/**
+ * A message in a chat note: the text between two separators, with its role.
+ */
+export interface ChatTurn {
+    role: ChatRole;
+    start: number;      // Offset of the separator that opens the turn (0 for the first turn)
+    bodyStart: number;  // Offset just after that separator
+    bodyEnd: number;    // Offset of the next separator, or the end of the content
+    end: number;        // Offset just after the next separator, or the end of the content
+}
+
+// message-from="chat" alternates roles; user/assistant/system set the next message's role.
+// Attributes may follow: <hr message-from="chat" data-model="...">
+const CHAT_SEPARATOR_SOURCE = '<hr message-from="(chat|user|assistant|system)"((?:\\s+[\\w-]+="[^"]*")*)\\s*>';
+
+/**
+ * Formats the current time for an attribution, e.g. 2025-01-31T14:05:09Z.
+ */
+export function formatAttributionTime(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Formats a chat separator, recording the attribution in data attributes
+ * when one is given.
+ * @param role Explicit role of the following message; null to alternate.
+ */
+export function formatChatSeparator(attribution: MessageAttribution | null = null, role: ChatRole | null = null): string {
+    const opening = `<hr message-from="${role ?? 'chat'}"`;
+    if (!attribution) {
+        return `${opening}>`;
+    }
+    const attributes: [string, string | number][] = [
+        ['data-model', attribution.model],
+        ['data-time', attribution.time],
+    ];
+    if (attribution.usage) {
+        attributes.push(['data-tokens-in', attribution.usage.promptTokens]);
+        attributes.push(['data-tokens-out', attribution.usage.completionTokens]);
+        if (attribution.usage.cost !== undefined) {
+            attributes.push(['data-cost', Number(attribution.usage.cost.toFixed(6))]);
+        }
+    }
+    const formatted = attributes.map(([name, value]) => ` ${name}="${escapeAttribute(String(value))}"`).join('');
+    return `${opening}${formatted}>`;
+}
+
+/**
+ * Finds every chat separator in the content, bare or attributed, in order.
+ */
+export function findChatSeparators(content: string): ChatSeparatorMatch[] {
+    const regex = new RegExp(CHAT_SEPARATOR_SOURCE, 'g');
+    const matches: ChatSeparatorMatch[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+        matches.push({
+            start: match.index,
+            end: match.index + match[0].length,
+            role: match[1] === 'chat' ? null : match[1] as ChatRole,
+            attribution: parseAttribution(match[2]),
+        });
+    }
+    return matches;
+}
+
+/**
+ * Splits note content into turns at its chat separators. A separator with an
+ * explicit role gives the following turn that role; message-from="chat"
+ * alternates, so the turn after a user turn is the assistant's and any other
+ * turn (assistant or system) is followed by the user's. The first turn is the
+ * user's. Blank turns are dropped without affecting the alternation.
+ */
+export function splitChatTurns(content: string): ChatTurn[] {
+    const separators = findChatSeparators(content);
+    const turns: ChatTurn[] = [];
+    let previousRole: ChatRole | null = null;
+    for (let i = 0; i <= separators.length; i++) {
+        const opening = i > 0 ? separators[i - 1] : null;
+        const closing = i < separators.length ? separators[i] : null;
+        const bodyStart = opening ? opening.end : 0;
+        const bodyEnd = closing ? closing.start : content.length;
+        if (content.substring(bodyStart, bodyEnd).trim().length === 0) {
+            continue;
+        }
+
+        const role: ChatRole = opening?.role
+            ?? (previousRole === 'user' ? 'assistant' : 'user');
+        turns.push({
+            role,
+            start: opening ? opening.start : 0,
+            bodyStart,
+            bodyEnd,
+            end: closing ? closing.end : content.length,
+        });
+        previousRole = role;
+    }
+    return turns;
+}
+
+function parseAttribution(attributeText: string): MessageAttribution | null {
+    const attributes = new Map<string, string>();
+    const regex = /([\w-]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(attributeText)) !== null) {
+        attributes.set(match[1], unescapeAttribute(match[2]));
+    }
+    const model = attributes.get('data-model');
+    if (!model) {
+        return null;
+    }
+
+    const attribution: MessageAttribution = { model, time: attributes.get('data-time') ?? '' };
+    const promptTokens = Number(attributes.get('data-tokens-in'));
+    const completionTokens = Number(attributes.get('data-tokens-out'));
+    if (attributes.has('data-tokens-in') && !isNaN(promptTokens) && !isNaN(completionTokens)) {
+        attribution.usage = { promptTokens, completionTokens };
+        const cost = Number(attributes.get('data-cost'));
+        if (attributes.has('data-cost') && !isNaN(cost)) {
+            attribution.usage.cost = cost;
+        }
+    }
+    return attribution;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeAttribute(value: string): string {
+    return value.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/**
+ * Location of the last model response in a chat note.
+ */
+export interface ResponseRange {
+    start: number;            // Offset where the user's message ends (whitespace before the opening separator included)
+    end: number;              // Offset just after the closing separator, or the end of the note if the response was cut off
+    bodyStart: number;        // Offset just after the opening separator
+    bodyEnd: number;          // Offset of the closing separator, or the end of the note
+    followedByText: boolean;  // True if anything other than whitespace comes after the response
+    openingRole: ChatRole | null; // Explicit role of the opening separator; null for message-from="chat"
+}
+
+/**
+ * Finds the last response in a chat note: the last assistant turn. A response
+ * that was never closed (e.g. the stream was stopped) runs to the end of the note.
+ * @param content The note content.
+ * @returns The response's range, or null if the note has no response.
+ */
+export function findLastResponse(content: string): ResponseRange | null {
+    const responses = splitChatTurns(content).filter(turn => turn.role === 'assistant');
+    const response = responses[responses.length - 1];
+    if (!response) {
+        return null;
+    }
+
+    let start = response.start;
+    while (start > 0 && /\s/.test(content[start - 1])) {
+        start--;
+    }
+
+    const opening = findChatSeparators(content.substring(response.start, response.bodyStart))[0];
+    return {
+        start,
+        end: response.end,
+        bodyStart: response.bodyStart,
+        bodyEnd: response.bodyEnd,
+        followedByText: content.substring(response.end).trim().length > 0,
+        openingRole: opening?.role ?? null,
+    };
+}
+
+/**
+ * Formats the empty turn a regenerated response is streamed into, replacing
+ * the old one from `response.start`. Earlier answers go below the new one.
+ * The opening separator keeps the old one's explicit role, so the turn is
+ * still read as the assistant's rather than by alternation.
+ * @param variantsText Earlier answers as variant callouts, or '' for none.
+ * @returns The text before the new answer, and the text after it.
+ */
+export function formatRegeneratedTurn(response: ResponseRange, variantsText: string): { turnStart: string; turnEnd: string } {
+    return {
+        turnStart: `\n\n${formatChatSeparator(null, response.openingRole)}\n\n`,
+        turnEnd: `\n\n${variantsText ? `${variantsText}\n\n` : ''}${CHAT_SEPARATOR}\n\n`,
+    };
+}
+
+/**
+ * Finds where the shown answer of a response ends, before its usage footers
+ * and variant callouts, so more text can be added straight after it.
+ * @param body The response text between its separators.
+ * @returns The offset in the body, or null if footers or variants sit within the answer.
+ */
+export function findAnswerEnd(body: string): number | null {
+    const answer = stripUsageFooters(stripCallouts(body, VARIANT_CALLOUT_TYPE)).replace(/\s+$/, '');
+    return body.startsWith(answer) ? answer.length : null;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { CommandPhraseDefinition, parseCommandLine, resolveFolderArgument, resolveModelArgument, resolveTitleArgument } from './commandPhrase';
+
+const commands: Record<string, CommandPhraseDefinition | undefined> = {
+    'cc': { argument: 'model' },
+    'gg': { argument: 'folder' },
+    'cg': {},
+    'cc fast': {},
+    'new chat': { argument: 'title' },
+};
+
+describe('parseCommandLine', () => {
+    it('matches a phrase on its own, with no arguments', () => {
+        expect(parseCommandLine('  cc  ', commands)).toMatchObject({ phrase: 'cc', args: '' });
+        expect(parseCommandLine('cg', commands)).toMatchObject({ phrase: 'cg', args: '' });
+    });
+
+    it('splits off the arguments of phrases that take them', () => {
+        expect(parseCommandLine('cc anthropic/claude-sonnet-4 ', commands)).toMatchObject({
+            phrase: 'cc',
+            args: 'anthropic/claude-sonnet-4',
+            argsStart: 3,
+        });
+        expect(parseCommandLine('gg   projects/alpha team', commands)).toMatchObject({
+            phrase: 'gg',
+            args: 'projects/alpha team',
+            argsStart: 5,
+        });
+    });
+
+    it('does not pass arguments to phrases that take none', () => {
+        expect(parseCommandLine('cg please', commands)).toBeNull();
+    });
+
+    it('prefers an exact phrase, then the longest phrase with arguments', () => {
+        expect(parseCommandLine('cc fast', commands)).toMatchObject({ phrase: 'cc fast', args: '' });
+        expect(parseCommandLine('new chat Launch plan', commands)).toMatchObject({ phrase: 'new chat', args: 'Launch plan' });
+    });
+
+    it('points argsStart past the space typed after a phrase', () => {
+        expect(parseCommandLine('cc ', commands)).toMatchObject({ phrase: 'cc', args: '', argsStart: 3 });
+        expect(parseCommandLine('cc', commands)).toMatchObject({ argsStart: 2 });
+    });
+
+    it('ignores lines that only contain a phrase as a word', () => {
+        expect(parseCommandLine('ccc', commands)).toBeNull();
+        expect(parseCommandLine('see cc here', commands)).toBeNull();
+        expect(parseCommandLine('   ', commands)).toBeNull();
+    });
+});
+
+// A phrase followed by text only runs if the text names a real model or folder;
+// otherwise the line is prose that happens to start with a phrase word.
+const modelIds = ['anthropic/claude-sonnet-4', 'anthropic/claude-opus-4', 'openai/gpt-4o', 'openai/gpt-4o-mini'];
+
+describe('resolveModelArgument', () => {
+    it('accepts an exact ID, ignoring case', () => {
+        expect(resolveModelArgument('openai/gpt-4o', modelIds)).toBe('openai/gpt-4o');
+        expect(resolveModelArgument('OpenAI/GPT-4o', modelIds)).toBe('openai/gpt-4o');
+    });
+
+    it('accepts a partial ID that matches only one model', () => {
+        expect(resolveModelArgument('sonnet', modelIds)).toBe('anthropic/claude-sonnet-4');
+        expect(resolveModelArgument('4o-mini', modelIds)).toBe('openai/gpt-4o-mini');
+    });
+
+    it('rejects ambiguous and unknown models', () => {
+        expect(resolveModelArgument('claude', modelIds)).toBeNull();
+        expect(resolveModelArgument('llama', modelIds)).toBeNull();
+    });
+
+    it('rejects prose after a phrase word', () => {
+        // "cc Bob about the launch", "cm foo", "rr that again"
+        expect(resolveModelArgument('Bob about the launch', modelIds)).toBeNull();
+        expect(resolveModelArgument('foo', modelIds)).toBeNull();
+        expect(resolveModelArgument('that again', modelIds)).toBeNull();
+    });
+});
+
+describe('resolveFolderArgument', () => {
+    const folders = ['Archive', 'Projects', 'Projects/Alpha', 'Work/Alpha', 'Work/Meetings'];
+
+    it('accepts an exact path, ignoring case and surrounding slashes', () => {
+        expect(resolveFolderArgument('Projects/Alpha', folders)).toBe('Projects/Alpha');
+        expect(resolveFolderArgument('/work/meetings/', folders)).toBe('Work/Meetings');
+    });
+
+    it('accepts a folder name that only one folder has', () => {
+        expect(resolveFolderArgument('meetings', folders)).toBe('Work/Meetings');
+        expect(resolveFolderArgument('Alpha', folders)).toBeNull();
+    });
+
+    it('rejects prose after a phrase word', () => {
+        // "gg wp", "gg it's done"
+        expect(resolveFolderArgument('wp', folders)).toBeNull();
+        expect(resolveFolderArgument("it's done", folders)).toBeNull();
+    });
+});
+
+describe('resolveTitleArgument', () => {
+    it('accepts text that can be a file name', () => {
+        expect(resolveTitleArgument(' Meeting notes ')).toBe('Meeting notes');
+    });
+
+    it('rejects prose that cannot be a file name', () => {
+        // "nn what's 2/3?", "nn more on this: see below"
+        expect(resolveTitleArgument("what's 2/3?")).toBeNull();
+        expect(resolveTitleArgument('more on this: see below')).toBeNull();
+        expect(resolveTitleArgument('say "hi"')).toBeNull();
+        expect(resolveTitleArgument('   ')).toBeNull();
+    });
+});
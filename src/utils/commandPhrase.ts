@@ -0,0 +1,119 @@
+// src/utils/commandPhrase.ts
+
+/**
+ * What a command phrase's arguments are, which decides what they autocomplete to.
+ */
+export type CommandArgumentKind = 'model' | 'folder' | 'title';
+
+/**
+ * A command phrase as far as parsing is concerned. Phrases without an
+ * `argument` only match a line on their own.
+ */
+export interface CommandPhraseDefinition {
+    argument?: CommandArgumentKind;
+}
+
+/**
+ * A line that holds a command phrase, possibly followed by arguments.
+ */
+export interface ParsedCommandLine<T extends CommandPhraseDefinition> {
+    phrase: string;
+    command: T;
+    args: string;      // The arguments, trimmed; empty if there are none
+    argsStart: number; // Offset in the line where the arguments start (or would start)
+}
+
+/**
+ * Splits a line into a command phrase and its arguments, e.g. `cc claude-sonnet`
+ * into `cc` and `claude-sonnet`. A line that is exactly a phrase always matches
+ * that phrase; otherwise the longest phrase that takes arguments wins, so a
+ * phrase may itself contain spaces.
+ * @returns The phrase and its arguments, or null if the line doesn't start with a phrase.
+ */
+export function parseCommandLine<T extends CommandPhraseDefinition>(
+    line: string,
+    commands: Record<string, T | undefined>
+): ParsedCommandLine<T> | null {
+    const leading = line.length - line.replace(/^\s+/, '').length;
+    const trimmed = line.trim();
+    if (!trimmed) {
+        return null;
+    }
+
+    const exact = commands[trimmed];
+    if (exact) {
+        const phraseEnd = leading + trimmed.length;
+        return { phrase: trimmed, command: exact, args: '', argsStart: skipWhitespace(line, phraseEnd) };
+    }
+
+    // Try each split point from the right, so the longest phrase is found first
+    for (let i = trimmed.length - 1; i > 0; i--) {
+        if (!/\s/.test(trimmed[i]) || /\s/.test(trimmed[i - 1])) {
+            continue;
+        }
+        const phrase = trimmed.substring(0, i);
+        const command = commands[phrase];
+        if (command?.argument) {
+            const argsStart = skipWhitespace(line, leading + i);
+            return { phrase, command, args: line.substring(argsStart).trim(), argsStart };
+        }
+    }
+    return null;
+}
+
+function skipWhitespace(text: string, from: number): number {
+    let index = from;
+    while (index < text.length && /\s/.test(text[index])) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * Matches a model typed after a phrase against the known model IDs: an exact
+ * ID, or the only ID that contains it (ignoring case). Model IDs have no
+ * spaces, so text with spaces is prose rather than a model.
+ * @returns The model ID, or null if none or several match.
+ */
+export function resolveModelArgument(arg: string, modelIds: string[]): string | null {
+    if (!arg || /\s/.test(arg)) {
+        return null;
+    }
+    const lowerArg = arg.toLowerCase();
+    const exact = modelIds.find(id => id === arg) ?? modelIds.find(id => id.toLowerCase() === lowerArg);
+    if (exact) {
+        return exact;
+    }
+    const partial = modelIds.filter(id => id.toLowerCase().includes(lowerArg));
+    return partial.length === 1 ? partial[0] : null;
+}
+
+/**
+ * Matches a folder typed after a phrase against the vault's folders: an exact
+ * path, or the only folder with that name (ignoring case).
+ * @returns The folder's path, or null if none or several match.
+ */
+export function resolveFolderArgument(arg: string, folderPaths: string[]): string | null {
+    const path = arg.replace(/^\/+|\/+$/g, '');
+    if (!path) {
+        return null;
+    }
+    const lowerPath = path.toLowerCase();
+    const exact = folderPaths.find(folder => folder === path)
+        ?? folderPaths.find(folder => folder.toLowerCase() === lowerPath);
+    if (exact) {
+        return exact;
+    }
+    const byName = folderPaths.filter(folder => folder.split('/').pop()?.toLowerCase() === lowerPath);
+    return byName.length === 1 ? byName[0] : null;
+}
+
+/**
+ * Checks a note title typed after a phrase: it must be usable as a file name,
+ * so text with characters file names can't hold is prose rather than a title.
+ * @returns The title, or null if it is empty or not a valid file name.
+ */
+export function resolveTitleArgument(arg: string): string | null {
+    const title = arg.trim();
+    return title && !/[\\/:*?"<>|]/.test(title) ? title : null;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { stripFrontmatter, getFrontmatterLength } from './frontmatter';
+
+// Per-note settings (like `model:`) live in frontmatter; if stripping misses the
+// block, they are sent to the model as part of the first user message.
+describe('stripFrontmatter', () => {
+    it('removes a leading frontmatter block', () => {
+        const note = '---\nmodel: openai/gpt-4o\n---\nHello there';
+        expect(stripFrontmatter(note)).toBe('Hello there');
+    });
+
+    it('leaves notes without frontmatter untouched', () => {
+        expect(stripFrontmatter('Hello there')).toBe('Hello there');
+        expect(getFrontmatterLength('Hello there')).toBe(0);
+    });
+
+    it('ignores horizontal rules that do not start on the first line', () => {
+        const note = 'Intro\n---\nnot: frontmatter\n---\nBody';
+        expect(stripFrontmatter(note)).toBe(note);
+    });
+
+    it('handles a note that is only frontmatter', () => {
+        expect(stripFrontmatter('---\nmodel: x\n---')).toBe('');
+    });
+});
@@ -0,0 +1,49 @@
+// src/utils/frontmatter.ts
+import type { App, TFile } from 'obsidian';
+
+// A YAML frontmatter block must open on the very first line of the note.
+const FRONTMATTER_REGEX = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Returns the length of the note's leading frontmatter block (including its
+ * closing delimiter line), or 0 if the note has none.
+ */
+export function getFrontmatterLength(content: string): number {
+    const match = FRONTMATTER_REGEX.exec(content);
+    return match ? match[0].length : 0;
+}
+
+/**
+ * Removes the leading frontmatter block so per-note settings never leak into
+ * the conversation sent to the model.
+ */
+export function stripFrontmatter(content: string): string {
+    return content.substring(getFrontmatterLength(content));
+}
+
+/**
+ * Reads a string value from a note's frontmatter via the metadata cache.
+ * @returns The trimmed value, or undefined if the key is missing, empty, or not a string.
+ */
+export function getFrontmatterString(app: App, file: TFile, key: string): string | undefined {
+    const value = app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Reads a list from a note's frontmatter: a YAML list, or a comma-separated string.
+ * @returns The trimmed, non-empty items, or undefined if there are none.
+ */
+export function getFrontmatterList(app: App, file: TFile, key: string): string[] | undefined {
+    const value = app.metadataCache.getFileCache(file)?.frontmatter?.[key];
+    const items: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    const list = items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim())
+        .filter(item => item.length > 0);
+    return list.length > 0 ? list : undefined;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseWikiLink, findWikiLinks } from './links';
+
+// Wiki links are how notes point at other vault notes (e.g. a system prompt
+// kept in a prompt library); the link path must survive headings and aliases.
+describe('parseWikiLink', () => {
+    it('extracts the link path from a plain link', () => {
+        expect(parseWikiLink('[[Prompts/Code reviewer]]')).toEqual({
+            linkpath: 'Prompts/Code reviewer',
+            subpath: undefined,
+            alias: undefined,
+        });
+    });
+
+    it('separates headings and aliases from the link path', () => {
+        expect(parseWikiLink('[[Design doc#Goals|the goals]]')).toEqual({
+            linkpath: 'Design doc',
+            subpath: '#Goals',
+            alias: 'the goals',
+        });
+    });
+
+    it('returns null for text that is not exactly one link', () => {
+        expect(parseWikiLink('You are a helpful reviewer.')).toBeNull();
+        expect(parseWikiLink('See [[Design doc]] for details')).toBeNull();
+        expect(parseWikiLink('[[]]')).toBeNull();
+    });
+});
+
+describe('findWikiLinks', () => {
+    it('finds links and embeds in order, marking embeds', () => {
+        const text = 'Compare [[Design doc]] with ![[spec.md]] and [[Notes/Meeting|the meeting]].';
+        expect(findWikiLinks(text).map(link => [link.linkpath, link.embed])).toEqual([
+            ['Design doc', false],
+            ['spec.md', true],
+            ['Notes/Meeting', false],
+        ]);
+    });
+
+    it('returns an empty list when there are no links', () => {
+        expect(findWikiLinks('Plain [text] with [single brackets].')).toEqual([]);
+    });
+});
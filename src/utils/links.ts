@@ -0,0 +1,51 @@
+// src/utils/links.ts
+
+/**
+ * The parts of an Obsidian wiki link like `[[Folder/Note#Heading|Alias]]`.
+ */
+export interface WikiLink {
+    linkpath: string;   // The target note path or name, without heading/alias
+    subpath?: string;   // Heading or block reference (e.g. "#Heading"), if any
+    alias?: string;
+}
+
+const WIKI_LINK_REGEX = /^\[\[([^\]|#^]*)((?:#|\^)[^\]|]*)?(?:\|([^\]]*))?\]\]$/;
+
+/**
+ * Parses a string that consists of exactly one wiki link.
+ * @returns The link parts, or null if the text isn't a single wiki link.
+ */
+export function parseWikiLink(text: string): WikiLink | null {
+    const match = WIKI_LINK_REGEX.exec(text.trim());
+    if (!match || !match[1].trim()) {
+        return null;
+    }
+    return {
+        linkpath: match[1].trim(),
+        subpath: match[2] || undefined,
+        alias: match[3] || undefined,
+    };
+}
+
+/**
+ * A wiki link found in text; `embed` is true for the `![[...]]` form.
+ */
+export interface FoundWikiLink extends WikiLink {
+    embed: boolean;
+}
+
+/**
+ * Finds every wiki link and embed in a block of text, in order of appearance.
+ */
+export function findWikiLinks(text: string): FoundWikiLink[] {
+    const searchRegex = /(!?)(\[\[[^[\]\n]+\]\])/g; // Fresh per call: global regexes are stateful
+    const links: FoundWikiLink[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = searchRegex.exec(text)) !== null) {
+        const link = parseWikiLink(match[2]);
+        if (link) {
+            links.push({ ...link, embed: match[1] === '!' });
+        }
+    }
+    return links;
+}
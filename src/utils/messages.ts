@@ -0,0 +1,26 @@
+// src/utils/messages.ts
+import { ChatMessage } from '../types';
+
+/**
+ * Returns the text of a message, joining the text parts of multimodal content
+ * (image parts are skipped).
+ */
+export function getMessageText(message: ChatMessage): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .filter(text => text.length > 0)
+        .join('\n');
+}
+
+/**
+ * Counts the image parts in a message.
+ */
+export function countMessageImages(message: ChatMessage): number {
+    if (typeof message.content === 'string') {
+        return 0;
+    }
+    return message.content.filter(part => part.type === 'image_url').length;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { qualifyModelId, parseModelId } from './modelIds';
+
+// Model IDs are stored in settings and note frontmatter, so the mapping must
+// round-trip and leave existing (OpenRouter) IDs untouched.
+describe('qualifyModelId / parseModelId', () => {
+    it('leaves OpenRouter model IDs unprefixed', () => {
+        expect(qualifyModelId('openrouter', 'anthropic/claude-sonnet-4')).toBe('anthropic/claude-sonnet-4');
+        expect(parseModelId('deepseek/deepseek-r1:free')).toEqual({
+            providerId: 'openrouter',
+            modelId: 'deepseek/deepseek-r1:free',
+        });
+    });
+
+    it('round-trips custom provider model IDs, keeping colons in model tags', () => {
+        const id = qualifyModelId('ollama', 'llama3.1:8b');
+        expect(id).toBe('ollama::llama3.1:8b');
+        expect(parseModelId(id)).toEqual({ providerId: 'ollama', modelId: 'llama3.1:8b' });
+    });
+
+    it('treats a leading separator as part of an OpenRouter ID', () => {
+        expect(parseModelId('::odd')).toEqual({ providerId: 'openrouter', modelId: '::odd' });
+    });
+});
@@ -0,0 +1,28 @@
+// src/utils/modelIds.ts
+import { OPENROUTER_PROVIDER_ID, PROVIDER_MODEL_SEPARATOR } from '../constants';
+
+/**
+ * Builds the model ID used in settings and notes. OpenRouter models keep
+ * their plain IDs; other providers' models are prefixed with the provider ID.
+ */
+export function qualifyModelId(providerId: string, modelId: string): string {
+    if (providerId === OPENROUTER_PROVIDER_ID) {
+        return modelId;
+    }
+    return `${providerId}${PROVIDER_MODEL_SEPARATOR}${modelId}`;
+}
+
+/**
+ * Splits a model ID from settings or a note into its provider and the
+ * provider's own model ID. IDs without a provider prefix belong to OpenRouter.
+ */
+export function parseModelId(qualifiedId: string): { providerId: string; modelId: string } {
+    const separatorIndex = qualifiedId.indexOf(PROVIDER_MODEL_SEPARATOR);
+    if (separatorIndex <= 0) {
+        return { providerId: OPENROUTER_PROVIDER_ID, modelId: qualifiedId };
+    }
+    return {
+        providerId: qualifiedId.substring(0, separatorIndex),
+        modelId: qualifiedId.substring(separatorIndex + PROVIDER_MODEL_SEPARATOR.length),
+    };
+}
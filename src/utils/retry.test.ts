@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { isRetryableStatus, parseRetryAfter, getRetryDelay, RetryPolicy } from './retry';
+
+// Retrying the wrong failures wastes the user's time (and money, for 4xx
+// errors that will never succeed); waiting too little ignores rate limits.
+describe('isRetryableStatus', () => {
+    it('retries rate limits and upstream outages', () => {
+        expect(isRetryableStatus(429)).toBe(true);
+        expect(isRetryableStatus(502)).toBe(true);
+        expect(isRetryableStatus(503)).toBe(true);
+    });
+
+    it('does not retry client errors', () => {
+        expect(isRetryableStatus(400)).toBe(false);
+        expect(isRetryableStatus(401)).toBe(false);
+        expect(isRetryableStatus(404)).toBe(false);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('reads a number of seconds', () => {
+        expect(parseRetryAfter('3')).toBe(3000);
+        expect(parseRetryAfter(' 1.5 ')).toBe(1500);
+    });
+
+    it('reads an HTTP date relative to now', () => {
+        const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+        expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+        expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores a missing or malformed header', () => {
+        expect(parseRetryAfter(null)).toBeNull();
+        expect(parseRetryAfter('soon')).toBeNull();
+    });
+});
+
+describe('getRetryDelay', () => {
+    const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    it('backs off exponentially, with jitter of up to half the delay', () => {
+        expect(getRetryDelay(policy, 0, null, () => 0)).toBe(500);
+        expect(getRetryDelay(policy, 1, null, () => 0)).toBe(1000);
+        expect(getRetryDelay(policy, 2, null, () => 0)).toBe(2000);
+        expect(getRetryDelay(policy, 2, null, () => 0.5)).toBe(3000);
+    });
+
+    it('caps the backoff at the maximum delay', () => {
+        const longPolicy = { ...policy, maxRetries: 10 };
+        expect(getRetryDelay(longPolicy, 8, null, () => 0)).toBe(2500);
+    });
+
+    it('stops after the configured number of retries', () => {
+        expect(getRetryDelay(policy, 3)).toBeNull();
+        expect(getRetryDelay({ ...policy, maxRetries: 0 }, 0)).toBeNull();
+    });
+
+    it('waits as long as the server asks, but gives up rather than wait past the maximum', () => {
+        expect(getRetryDelay(policy, 0, 3000)).toBe(3000);
+        expect(getRetryDelay(policy, 0, 60000)).toBeNull();
+    });
+});
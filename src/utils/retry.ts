@@ -0,0 +1,83 @@
+// src/utils/retry.ts
+
+/**
+ * How failed requests are retried. Delays grow exponentially from the base
+ * delay, with jitter so retries from several chats don't line up.
+ */
+export interface RetryPolicy {
+    maxRetries: number;  // Retries after the first attempt; 0 disables retrying
+    baseDelayMs: number; // Delay before the first retry
+    maxDelayMs: number;  // Longest wait; a Retry-After beyond this gives up instead
+}
+
+// Statuses worth retrying: timeouts, rate limits, and upstream/provider outages
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * @returns True if a request that failed with this HTTP status may succeed when retried.
+ */
+export function isRetryableStatus(status: number): boolean {
+    return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parses a Retry-After header: either a number of seconds or an HTTP date.
+ * @param now The current time, for dates (ms since epoch).
+ * @returns The wait in milliseconds, or null if the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+    if (!value) {
+        return null;
+    }
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Works out how long to wait before a retry.
+ * @param attempt The retry about to be made, starting at 0.
+ * @param retryAfterMs The server's requested wait, if it sent one.
+ * @param random Source of jitter, in [0, 1).
+ * @returns The delay in milliseconds, or null if no retry should be made.
+ */
+export function getRetryDelay(
+    policy: RetryPolicy,
+    attempt: number,
+    retryAfterMs: number | null = null,
+    random: () => number = Math.random
+): number | null {
+    if (attempt >= policy.maxRetries) {
+        return null;
+    }
+    if (retryAfterMs !== null) {
+        return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+    }
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    // Between half and the full backoff
+    return Math.round(backoff / 2 + random() * backoff / 2);
+}
+
+/**
+ * Waits for the given time, ending early with an AbortError if the signal fires.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException(signal.reason || 'Aborted', 'AbortError'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException(signal?.reason || 'Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { findTemplateVariables, renderTemplate } from './templates';
+
+// Templates are sent as the user's message, so every variable must be filled
+// in exactly, and anything that isn't a variable must pass through untouched.
+describe('findTemplateVariables', () => {
+    it('finds variables with and without arguments, in order', () => {
+        const variables = findTemplateVariables('Translate to {{ask:Which language?}}:\n\n{{selection}}\n\n(as of {{date:YYYY-MM-DD}})');
+        expect(variables).toEqual([
+            { name: 'ask', argument: 'Which language?', placeholder: '{{ask:Which language?}}' },
+            { name: 'selection', argument: null, placeholder: '{{selection}}' },
+            { name: 'date', argument: 'YYYY-MM-DD', placeholder: '{{date:YYYY-MM-DD}}' },
+        ]);
+    });
+
+    it('lists a repeated placeholder once, so the user is asked once', () => {
+        expect(findTemplateVariables('{{ask:Name}} and {{ask:Name}}')).toHaveLength(1);
+    });
+
+    it('ignores unknown placeholders', () => {
+        expect(findTemplateVariables('{{title}} {{ note }}')).toEqual([
+            { name: 'note', argument: null, placeholder: '{{ note }}' },
+        ]);
+    });
+});
+
+describe('renderTemplate', () => {
+    it('fills every occurrence and leaves the rest as written', () => {
+        const values = new Map([['{{selection}}', 'Hello'], ['{{ask:Language}}', 'German']]);
+        expect(renderTemplate('{{selection}} in {{ask:Language}}; again: {{selection}} {{clipboard}} {{title}}', values))
+            .toBe('Hello in German; again: Hello {{clipboard}} {{title}}');
+    });
+
+    it('inserts values literally, even ones that look like replacement patterns', () => {
+        expect(renderTemplate('Say {{selection}}', new Map([['{{selection}}', '$& and $1']]))).toBe('Say $& and $1');
+    });
+});
@@ -0,0 +1,47 @@
+// src/utils/templates.ts
+
+/**
+ * A `{{variable}}` in a prompt template. `argument` is the text after the
+ * colon, e.g. the question of `{{ask:Which language?}}` or the format of
+ * `{{date:YYYY-MM-DD}}`.
+ */
+export interface TemplateVariable {
+    name: 'selection' | 'note' | 'date' | 'clipboard' | 'ask';
+    argument: string | null;
+    placeholder: string; // The variable as written in the template
+}
+
+const VARIABLE_REGEX = /\{\{\s*(selection|note|date|clipboard|ask)\s*(?::([^}]*))?\}\}/g;
+
+/**
+ * Lists a template's variables in order of appearance, each placeholder once.
+ * Unknown `{{...}}` placeholders are not variables and are left alone.
+ */
+export function findTemplateVariables(template: string): TemplateVariable[] {
+    const variables: TemplateVariable[] = [];
+    const seen = new Set<string>();
+    const regex = new RegExp(VARIABLE_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(template)) !== null) {
+        if (seen.has(match[0])) {
+            continue;
+        }
+        seen.add(match[0]);
+        const argument = match[2]?.trim();
+        variables.push({
+            name: match[1] as TemplateVariable['name'],
+            argument: argument ? argument : null,
+            placeholder: match[0],
+        });
+    }
+    return variables;
+}
+
+/**
+ * Fills in a template's variables.
+ * @param values The value of each variable, keyed by its placeholder (see findTemplateVariables).
+ *        Variables without a value are left as written.
+ */
+export function renderTemplate(template: string, values: Map<string, string>): string {
+    return template.replace(new RegExp(VARIABLE_REGEX.source, 'g'), (placeholder) => values.get(placeholder) ?? placeholder);
+}
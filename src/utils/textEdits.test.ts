@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { mapOffsetThroughEdits } from './textEdits';
+
+// A streaming response is written at a tracked offset while the user may be
+// typing elsewhere in the note; a wrong mapping splices the answer into their text.
+describe('mapOffsetThroughEdits', () => {
+    const before = 'Question\n\nAnswer so far';
+    const writeOffset = before.length;
+
+    it('keeps the offset when nothing changed', () => {
+        expect(mapOffsetThroughEdits(before, before, 5)).toBe(5);
+    });
+
+    it('shifts the offset by text typed before it', () => {
+        const after = 'My question\n\nAnswer so far';
+        expect(mapOffsetThroughEdits(before, after, writeOffset)).toBe(after.length);
+        expect(after.substring(0, mapOffsetThroughEdits(before, after, 10))).toBe('My question\n\n');
+    });
+
+    it('shifts the offset back for text deleted before it', () => {
+        const after = 'Q\n\nAnswer so far';
+        expect(mapOffsetThroughEdits(before, after, writeOffset)).toBe(after.length);
+    });
+
+    it('keeps the offset for text typed after it', () => {
+        const after = `${before}\n\nA note to self`;
+        expect(mapOffsetThroughEdits(before, after, writeOffset)).toBe(writeOffset);
+    });
+
+    it('maps exactly around several edits on either side', () => {
+        const text = 'aaa|bbb';
+        const after = 'xaaa|bbby';
+        expect(mapOffsetThroughEdits(text, after, 0)).toBe(0);
+        expect(mapOffsetThroughEdits(text, after, text.length)).toBe(after.length);
+    });
+
+    it('moves an offset inside a replaced region to its end', () => {
+        expect(mapOffsetThroughEdits('abcdef', 'abXYZef', 3)).toBe(5);
+    });
+});
@@ -0,0 +1,35 @@
+// src/utils/textEdits.ts
+
+/**
+ * Maps an offset in a text through the edits that turned it into a newer
+ * version, by treating everything between the versions' common prefix and
+ * common suffix as one edited region. Offsets before or after all the edits
+ * map exactly; an offset inside the edited region moves to its end.
+ * @param before The text the offset refers to.
+ * @param after The edited text.
+ * @param offset The offset in `before`.
+ * @returns The corresponding offset in `after`.
+ */
+export function mapOffsetThroughEdits(before: string, after: string, offset: number): number {
+    if (before === after) {
+        return offset;
+    }
+
+    const maxShared = Math.min(before.length, after.length);
+    let prefix = 0;
+    while (prefix < maxShared && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < maxShared - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    if (offset <= prefix) {
+        return offset;
+    }
+    if (offset >= before.length - suffix) {
+        return offset + after.length - before.length;
+    }
+    return after.length - suffix;
+}
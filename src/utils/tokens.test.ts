@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { estimateMessagesTokens, getPromptTokenBudget, dropOldestTurns } from './tokens';
+import { ChatMessage } from '../types';
+
+// Budgeting happens before sending, so a long chat note gets a clear notice
+// (or is trimmed) instead of an opaque 400 from the API.
+describe('estimateMessagesTokens', () => {
+    it('grows with text length and counts images', () => {
+        const short: ChatMessage[] = [{ role: 'user', content: 'Hi' }];
+        const long: ChatMessage[] = [{ role: 'user', content: 'Hi '.repeat(400) }];
+        const withImage: ChatMessage[] = [{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Hi' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+            ],
+        }];
+        expect(estimateMessagesTokens(long)).toBeGreaterThan(estimateMessagesTokens(short));
+        expect(estimateMessagesTokens(withImage)).toBeGreaterThan(estimateMessagesTokens(short) + 500);
+    });
+});
+
+describe('getPromptTokenBudget', () => {
+    it('reserves the smaller of the provider cap and the configured reserve', () => {
+        expect(getPromptTokenBudget(8000, 1000, 4000)).toBe(7000);
+        expect(getPromptTokenBudget(8000, null, 4000)).toBe(4000);
+    });
+
+    it('never returns a negative budget', () => {
+        expect(getPromptTokenBudget(1000, null, 4000)).toBe(0);
+    });
+});
+
+describe('dropOldestTurns', () => {
+    const turn = (role: ChatMessage['role'], size: number): ChatMessage => ({ role, content: 'x'.repeat(size) });
+
+    it('drops oldest turns first and always keeps system messages and the last message', () => {
+        const messages = [turn('system', 40), turn('user', 400), turn('assistant', 400), turn('user', 40)];
+        const { kept, dropped, fits } = dropOldestTurns(messages, 60);
+        expect(kept).toEqual([messages[0], messages[3]]);
+        expect(dropped).toEqual([messages[1], messages[2]]);
+        expect(fits).toBe(true);
+    });
+
+    it('removes an assistant reply together with its user message so the conversation starts with the user', () => {
+        const messages = [turn('user', 400), turn('assistant', 40), turn('user', 40), turn('assistant', 40), turn('user', 40)];
+        const { kept } = dropOldestTurns(messages, 80);
+        expect(kept[0].role).toBe('user');
+        expect(kept[kept.length - 1]).toBe(messages[4]);
+    });
+
+    it('reports when even the last message alone does not fit', () => {
+        const messages = [turn('user', 40), turn('assistant', 40), turn('user', 4000)];
+        const { kept, fits } = dropOldestTurns(messages, 100);
+        expect(kept).toEqual([messages[2]]);
+        expect(fits).toBe(false);
+    });
+});
@@ -0,0 +1,82 @@
+// src/utils/tokens.ts
+import { ChatMessage } from '../types';
+import { getMessageText, countMessageImages } from './messages';
+
+// Rough averages; real counts depend on the model's tokenizer. English prose
+// averages about 4 characters per token across common tokenizers.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4; // Role and formatting overhead per message
+const TOKENS_PER_IMAGE = 1000; // Providers charge roughly 500-1500 tokens per image
+
+/**
+ * Estimates the token count of a piece of text.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cuts text down to roughly the given number of tokens.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    return text.length > maxChars ? text.substring(0, maxChars) : text;
+}
+
+/**
+ * Estimates the prompt tokens a conversation will use. This is a heuristic
+ * for budgeting before sending, not an exact count.
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) =>
+        total
+        + TOKENS_PER_MESSAGE
+        + estimateTokens(getMessageText(message))
+        + countMessageImages(message) * TOKENS_PER_IMAGE,
+    0);
+}
+
+/**
+ * Computes how many prompt tokens fit in a model's context window after
+ * reserving room for the response.
+ * @param contextLength The model's context length.
+ * @param maxCompletionTokens The provider's completion cap, if known.
+ * @param responseReserve Tokens to keep free for the response.
+ * @returns The prompt token budget (never negative).
+ */
+export function getPromptTokenBudget(contextLength: number, maxCompletionTokens: number | null | undefined, responseReserve: number): number {
+    // A provider cap smaller than the reserve is all the response can use anyway
+    const reserved = maxCompletionTokens ? Math.min(maxCompletionTokens, responseReserve) : responseReserve;
+    return Math.max(contextLength - reserved, 0);
+}
+
+/**
+ * Splits a conversation into the oldest turns that must go and the messages
+ * that fit the budget. System messages and the final message are always kept;
+ * turns are removed oldest first, and an assistant reply is removed together with
+ * the user message before it so the kept conversation still starts with the user.
+ * @returns The kept messages (in order), the removed messages, and whether the kept messages fit.
+ */
+export function dropOldestTurns(messages: ChatMessage[], tokenBudget: number): { kept: ChatMessage[], dropped: ChatMessage[], fits: boolean } {
+    const kept = [...messages];
+    const dropped: ChatMessage[] = [];
+
+    const oldestDroppableIndex = (): number => {
+        const index = kept.findIndex(message => message.role !== 'system');
+        return index >= 0 && index < kept.length - 1 ? index : -1;
+    };
+
+    while (estimateMessagesTokens(kept) > tokenBudget) {
+        const index = oldestDroppableIndex();
+        if (index < 0) {
+            break;
+        }
+        dropped.push(...kept.splice(index, 1));
+        // Keep the conversation starting with a user turn
+        while (oldestDroppableIndex() >= 0 && kept[oldestDroppableIndex()].role === 'assistant') {
+            dropped.push(...kept.splice(oldestDroppableIndex(), 1));
+        }
+    }
+
+    return { kept, dropped, fits: estimateMessagesTokens(kept) <= tokenBudget };
+}
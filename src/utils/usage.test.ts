@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseUsage, formatUsageFooter, stripUsageFooters, addUsageToTotals, formatCost } from './usage';
+
+// Usage is what the spend summary is built from: totals must accumulate
+// correctly, and footers must never be sent back to the model as context.
+describe('parseUsage', () => {
+    it('reads token counts, reasoning tokens, and cost from an OpenRouter usage object', () => {
+        expect(parseUsage({
+            prompt_tokens: 120,
+            completion_tokens: 80,
+            completion_tokens_details: { reasoning_tokens: 30 },
+            cost: 0.0021,
+        })).toEqual({ promptTokens: 120, completionTokens: 80, reasoningTokens: 30, cost: 0.0021 });
+    });
+
+    it('returns null when there is no usage', () => {
+        expect(parseUsage(undefined)).toBeNull();
+        expect(parseUsage('usage')).toBeNull();
+        expect(parseUsage({ prompt_tokens: '120' })).toBeNull();
+    });
+
+    it('ignores fields of the wrong type', () => {
+        expect(parseUsage({
+            prompt_tokens: 120,
+            completion_tokens: null,
+            completion_tokens_details: { reasoning_tokens: '30' },
+            cost: '0.0021',
+        })).toEqual({ promptTokens: 120, completionTokens: 0, reasoningTokens: undefined, cost: undefined });
+    });
+});
+
+describe('usage footers', () => {
+    it('are removed from a response without touching the answer', () => {
+        const footer = formatUsageFooter('openai/gpt-4o', { promptTokens: 1200, completionTokens: 300, cost: 0.0042 });
+        expect(stripUsageFooters(`The answer.\n\n${footer}`).trim()).toBe('The answer.');
+    });
+});
+
+describe('addUsageToTotals', () => {
+    it('starts totals from zero and accumulates across responses', () => {
+        const frontmatter: Record<string, unknown> = { model: 'x' };
+        addUsageToTotals(frontmatter, { promptTokens: 100, completionTokens: 50, cost: 0.1 });
+        addUsageToTotals(frontmatter, { promptTokens: 200, completionTokens: 25, cost: 0.2 });
+        expect(frontmatter).toEqual({
+            model: 'x',
+            'chat-tokens-in': 300,
+            'chat-tokens-out': 75,
+            'chat-cost': 0.3,
+        });
+    });
+});
+
+describe('formatCost', () => {
+    it('keeps precision for sub-cent amounts', () => {
+        expect(formatCost(0.00042)).toBe('$0.0004');
+        expect(formatCost(1.5)).toBe('$1.50');
+    });
+});
@@ -0,0 +1,84 @@
+// src/utils/usage.ts
+import { ChatUsage } from '../types';
+import {
+    FRONTMATTER_COST_KEY,
+    FRONTMATTER_PROMPT_TOKENS_KEY,
+    FRONTMATTER_COMPLETION_TOKENS_KEY
+} from '../constants';
+
+const USAGE_FOOTER_CLASS = 'snc-usage';
+
+/**
+ * Formats a cost in credits (USD), keeping enough precision for sub-cent responses.
+ */
+export function formatCost(cost: number): string {
+    if (cost === 0) return '$0';
+    if (cost < 0.01) return `$${cost.toFixed(4).replace(/0+$/, '')}`;
+    return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Parses the `usage` object of an OpenRouter completion response.
+ * @returns The usage, or null if the response carried none.
+ */
+export function parseUsage(usage: unknown): ChatUsage | null {
+    if (!isRecord(usage) || typeof usage.prompt_tokens !== 'number') {
+        return null;
+    }
+    const details = isRecord(usage.completion_tokens_details) ? usage.completion_tokens_details : {};
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: typeof usage.completion_tokens === 'number' ? usage.completion_tokens : 0,
+        reasoningTokens: typeof details.reasoning_tokens === 'number' ? details.reasoning_tokens : undefined,
+        cost: typeof usage.cost === 'number' ? usage.cost : undefined,
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Builds the compact footer line written below a response.
+ */
+export function formatUsageFooter(model: string, usage: ChatUsage): string {
+    const parts = [
+        model,
+        `${usage.promptTokens.toLocaleString()} in`,
+        `${usage.completionTokens.toLocaleString()} out`,
+    ];
+    if (usage.reasoningTokens) {
+        parts.push(`${usage.reasoningTokens.toLocaleString()} reasoning`);
+    }
+    if (usage.cost !== undefined) {
+        parts.push(formatCost(usage.cost));
+    }
+    return `<small class="${USAGE_FOOTER_CLASS}">${parts.join(' · ')}</small>`;
+}
+
+/**
+ * Removes usage footer lines so they aren't sent back to the model.
+ */
+export function stripUsageFooters(text: string): string {
+    const footerRegex = new RegExp(`^[ \\t]*<small class="${USAGE_FOOTER_CLASS}">.*</small>[ \\t]*$`, 'gm');
+    return text.replace(footerRegex, '');
+}
+
+/**
+ * Adds a response's usage to the running totals kept in a note's frontmatter.
+ * Missing or non-numeric totals start from zero.
+ * @param frontmatter The frontmatter object (as given by processFrontMatter); modified in place.
+ */
+export function addUsageToTotals(frontmatter: Record<string, unknown>, usage: ChatUsage): void {
+    const add = (key: string, amount: number) => {
+        const current = Number(frontmatter[key]);
+        frontmatter[key] = (isNaN(current) ? 0 : current) + amount;
+    };
+    add(FRONTMATTER_PROMPT_TOKENS_KEY, usage.promptTokens);
+    add(FRONTMATTER_COMPLETION_TOKENS_KEY, usage.completionTokens);
+    if (usage.cost !== undefined) {
+        add(FRONTMATTER_COST_KEY, usage.cost);
+        // Keep the stored total readable despite floating point drift
+        frontmatter[FRONTMATTER_COST_KEY] = Number((frontmatter[FRONTMATTER_COST_KEY] as number).toFixed(6));
+    }
+}
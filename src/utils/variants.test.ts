@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import {
+    splitResponseVariants,
+    joinResponseVariants,
+    cycleResponseVariants
+} from './variants';
+
+// Only the shown answer is sent back to the model; cycling must visit every
+// variant and never drop one.
+describe('response variants', () => {
+    it('round-trips the shown answer and its variants', () => {
+        const turn = { current: 'Answer C', variants: ['Answer B', '> [!thinking]-\n> hmm\n\nAnswer A'] };
+        expect(splitResponseVariants(joinResponseVariants(turn))).toEqual(turn);
+    });
+
+    it('treats a turn without variant callouts as a single answer', () => {
+        expect(splitResponseVariants('\n\nJust one answer\n\n')).toEqual({ current: 'Just one answer', variants: [] });
+    });
+
+    it('cycles through every variant back to the start', () => {
+        const start = { current: 'C', variants: ['B', 'A'] };
+        const once = cycleResponseVariants(start);
+        expect(once).toEqual({ current: 'B', variants: ['A', 'C'] });
+        expect(cycleResponseVariants(cycleResponseVariants(once))).toEqual(start);
+    });
+
+    it('shows a variant when the turn has no answer of its own', () => {
+        expect(cycleResponseVariants({ current: '', variants: ['B', 'A'] })).toEqual({ current: 'B', variants: ['A'] });
+    });
+});
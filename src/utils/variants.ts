@@ -0,0 +1,53 @@
+// src/utils/variants.ts
+import { VARIANT_CALLOUT_TYPE } from '../constants';
+import { extractCallouts, formatCallout } from './callouts';
+
+/**
+ * An assistant turn with alternative answers: the answer shown (and sent as
+ * context) plus earlier answers kept as folded variant callouts below it.
+ */
+export interface ResponseVariants {
+    current: string;
+    variants: string[];
+}
+
+/**
+ * Splits the text of an assistant turn (between its separators) into the
+ * shown answer and its stored variants.
+ */
+export function splitResponseVariants(response: string): ResponseVariants {
+    const { text, callouts } = extractCallouts(response, VARIANT_CALLOUT_TYPE);
+    return {
+        current: text.trim(),
+        variants: callouts.map(callout => callout.body.trim()).filter(Boolean),
+    };
+}
+
+/**
+ * Formats the variants as folded callouts, numbered in order.
+ * @returns The callouts separated by blank lines, or '' when there are none.
+ */
+export function formatResponseVariants(variants: string[]): string {
+    return variants
+        .map((variant, index) => formatCallout(VARIANT_CALLOUT_TYPE, `Variant ${index + 1} of ${variants.length}`, variant))
+        .join('\n\n');
+}
+
+/**
+ * Builds the text of an assistant turn: the shown answer, then its variants.
+ */
+export function joinResponseVariants({ current, variants }: ResponseVariants): string {
+    return [current, formatResponseVariants(variants)].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Shows the next variant: the first stored variant becomes the shown answer
+ * and the previously shown answer moves to the end of the list.
+ */
+export function cycleResponseVariants({ current, variants }: ResponseVariants): ResponseVariants {
+    if (variants.length === 0) {
+        return { current, variants };
+    }
+    const [next, ...rest] = variants;
+    return { current: next, variants: current ? [...rest, current] : rest };
+}
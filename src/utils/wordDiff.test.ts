@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, DiffPart, MAX_DIFF_CELLS } from './wordDiff';
+
+const join = (parts: DiffPart[], skip: DiffPart['type']) =>
+    parts.filter(part => part.type !== skip).map(part => part.text).join('');
+
+// The rewrite preview is only trustworthy if the diff rebuilds both texts
+// exactly and marks the words that actually changed.
+describe('diffWords', () => {
+    it('marks nothing when the texts are the same', () => {
+        expect(diffWords('The quick fox.', 'The quick fox.')).toEqual([{ type: 'equal', text: 'The quick fox.' }]);
+    });
+
+    it('marks a replaced word as deleted and inserted', () => {
+        expect(diffWords('The quick fox jumps.', 'The slow fox jumps.')).toEqual([
+            { type: 'equal', text: 'The ' },
+            { type: 'delete', text: 'quick' },
+            { type: 'insert', text: 'slow' },
+            { type: 'equal', text: ' fox jumps.' },
+        ]);
+    });
+
+    it('rebuilds both texts, keeping whitespace and line breaks', () => {
+        const before = 'First line here.\n\nSecond  paragraph, as it was.';
+        const after = 'First line.\n\nA second paragraph,\nas it is now.';
+        const parts = diffWords(before, after);
+        expect(join(parts, 'insert')).toBe(before);
+        expect(join(parts, 'delete')).toBe(after);
+    });
+
+    it('shows a large change as one deletion and insertion, keeping the shared ends', () => {
+        const words = Math.ceil(Math.sqrt(MAX_DIFF_CELLS));
+        const before = Array.from({ length: words }, (_, i) => `old${i}`).join(' ');
+        const after = Array.from({ length: words }, (_, i) => `new${i}`).join(' ');
+        const parts = diffWords(`Intro. ${before} Outro.`, `Intro. ${after} Outro.`);
+        expect(parts.map(part => part.type)).toEqual(['equal', 'delete', 'insert', 'equal']);
+        expect(join(parts, 'insert')).toBe(`Intro. ${before} Outro.`);
+        expect(join(parts, 'delete')).toBe(`Intro. ${after} Outro.`);
+    });
+
+    it('handles an empty side', () => {
+        expect(diffWords('', 'New text')).toEqual([{ type: 'insert', text: 'New text' }]);
+        expect(diffWords('Old text', '')).toEqual([{ type: 'delete', text: 'Old text' }]);
+    });
+});
@@ -0,0 +1,99 @@
+// src/utils/wordDiff.ts
+
+/**
+ * A run of text that both versions share, or that only one of them has.
+ */
+export interface DiffPart {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+/**
+ * Largest comparison table (changed words before × changed words after) that
+ * is worth building; about 4 MB and a few milliseconds. Bigger changes are
+ * shown as a plain deletion and insertion.
+ */
+export const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Splits text into words and the whitespace between them, so a diff keeps
+ * spacing and line breaks exactly.
+ */
+function tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Compares two versions of a text word by word.
+ * @param before The original text.
+ * @param after The changed text.
+ * The table grows with the square of the changed words, so past
+ * MAX_DIFF_CELLS the changed middle is shown as one deletion and one insertion.
+ * @returns The parts in order; joining the equal and delete parts gives
+ *          `before`, joining the equal and insert parts gives `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    // Shared words at either end don't need the table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix
+        && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            parts.push({ type, text });
+        }
+    };
+
+    a.slice(0, prefix).forEach(token => push('equal', token));
+
+    // Longest common subsequence of the middle tokens; lengths[i][j] covers a[i..], b[j..]
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (middleA.length * middleB.length > MAX_DIFF_CELLS) {
+        push('delete', middleA.join(''));
+        push('insert', middleB.join(''));
+        a.slice(a.length - suffix).forEach(token => push('equal', token));
+        return parts.filter(part => part.text);
+    }
+    const columns = middleB.length + 1;
+    const lengths = new Uint32Array((middleA.length + 1) * columns);
+    for (let i = middleA.length - 1; i >= 0; i--) {
+        for (let j = middleB.length - 1; j >= 0; j--) {
+            lengths[i * columns + j] = middleA[i] === middleB[j]
+                ? lengths[(i + 1) * columns + j + 1] + 1
+                : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length && j < middleB.length) {
+        if (middleA[i] === middleB[j]) {
+            push('equal', middleA[i]);
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+            push('delete', middleA[i++]);
+        } else {
+            push('insert', middleB[j++]);
+        }
+    }
+    middleA.slice(i).forEach(token => push('delete', token));
+    middleB.slice(j).forEach(token => push('insert', token));
+
+    a.slice(a.length - suffix).forEach(token => push('equal', token));
+    return parts;
+}